@@ -0,0 +1,148 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { acquireCrossTabLock } from "../src/client/cross-tab-lock";
+
+/**
+ * Minimal in-memory LockManager with the Web Locks semantics used by
+ * acquireCrossTabLock.
+ */
+class FakeLockManager {
+  private held = new Set<string>();
+  private waiters = new Map<string, Array<() => void>>();
+
+  async request(
+    name: string,
+    options: { ifAvailable?: boolean; signal?: AbortSignal },
+    callback: (lock: { name: string } | null) => Promise<void>
+  ): Promise<void> {
+    if (this.held.has(name)) {
+      if (options.ifAvailable) return callback(null);
+      await new Promise<void>((resolve, reject) => {
+        const queue = this.waiters.get(name) || [];
+        queue.push(resolve);
+        this.waiters.set(name, queue);
+        options.signal?.addEventListener("abort", () => {
+          queue.splice(queue.indexOf(resolve), 1);
+          reject(options.signal?.reason);
+        });
+      });
+    }
+
+    this.held.add(name);
+    try {
+      await callback({ name });
+    } finally {
+      this.held.delete(name);
+      this.waiters.get(name)?.shift()?.();
+    }
+  }
+}
+
+function setLocks(locks: FakeLockManager | undefined) {
+  Object.defineProperty(navigator, "locks", {
+    value: locks,
+    configurable: true,
+  });
+}
+
+describe("acquireCrossTabLock", () => {
+  afterEach(() => {
+    setLocks(undefined);
+  });
+
+  describe.each([
+    ["Web Locks", () => setLocks(new FakeLockManager())],
+    ["BroadcastChannel", () => setLocks(undefined)],
+  ])("with %s", (_name, setup) => {
+    it("should grant the lock to one holder at a time", async () => {
+      setup();
+      const signal = new AbortController().signal;
+
+      const first = await acquireCrossTabLock("form", { wait: false, signal });
+      const second = await acquireCrossTabLock("form", {
+        wait: false,
+        signal,
+      });
+
+      expect(first).toBeTypeOf("function");
+      expect(second).toBeNull();
+      first?.();
+    });
+
+    it("should grant the lock again once released", async () => {
+      setup();
+      const signal = new AbortController().signal;
+
+      const first = await acquireCrossTabLock("form", { wait: false, signal });
+      first?.();
+      // Releasing a Web Lock settles asynchronously
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      const second = await acquireCrossTabLock("form", {
+        wait: false,
+        signal,
+      });
+
+      expect(second).toBeTypeOf("function");
+      second?.();
+    });
+
+    it("should keep locks for different names apart", async () => {
+      setup();
+      const signal = new AbortController().signal;
+
+      const first = await acquireCrossTabLock("a", { wait: false, signal });
+      const second = await acquireCrossTabLock("b", { wait: false, signal });
+
+      expect(first).toBeTypeOf("function");
+      expect(second).toBeTypeOf("function");
+      first?.();
+      second?.();
+    });
+
+    it("should queue until the holder releases the lock", async () => {
+      setup();
+      const signal = new AbortController().signal;
+      let waiting = false;
+
+      const first = await acquireCrossTabLock("form", { wait: false, signal });
+      const queued = acquireCrossTabLock("form", {
+        wait: true,
+        signal,
+        onWaiting: () => {
+          waiting = true;
+        },
+      });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(waiting).toBe(true);
+
+      first?.();
+      const release = await queued;
+
+      expect(release).toBeTypeOf("function");
+      release?.();
+    });
+
+    it("should stop waiting when aborted", async () => {
+      setup();
+      const controller = new AbortController();
+
+      const first = await acquireCrossTabLock("form", {
+        wait: false,
+        signal: controller.signal,
+      });
+      const queued = acquireCrossTabLock("form", {
+        wait: true,
+        signal: new AbortController().signal,
+      });
+      const cancelled = acquireCrossTabLock("form", {
+        wait: true,
+        signal: controller.signal,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      controller.abort(new Error("cancelled"));
+
+      await expect(cancelled).rejects.toThrow("cancelled");
+      first?.();
+      (await queued)?.();
+    });
+  });
+});
@@ -0,0 +1,124 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import express from "express";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { expressIdempotency } from "../src/adapters/express";
+import { MemoryStore } from "../src/server/stores/memory-store";
+
+describe("expressIdempotency", () => {
+  let server: Server;
+  let baseUrl: string;
+  let handler: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    handler = vi
+      .fn()
+      .mockImplementation((req: express.Request, res: express.Response) => {
+        res
+          .status(201)
+          .set("X-Order", "order_1")
+          .json({ orderId: "order_1", amount: req.body.amount });
+      });
+
+    const app = express();
+    app.use(express.json());
+    app.use(express.urlencoded({ extended: false }));
+    app.post(
+      "/api/orders",
+      expressIdempotency({ store: new MemoryStore() }),
+      (req, res) => handler(req, res)
+    );
+    app.post(
+      "/api/fail",
+      expressIdempotency({ store: new MemoryStore() }),
+      (_req, res) => {
+        res.destroy();
+      }
+    );
+
+    await new Promise<void>((resolve) => {
+      server = app.listen(0, resolve);
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const postOrder = (key: string, amount = 100) =>
+    fetch(`${baseUrl}/api/orders`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Idempotency-Key": key },
+      body: JSON.stringify({ amount }),
+    });
+
+  it("should replay the captured response for duplicates", async () => {
+    const first = await postOrder("key-1");
+    expect(first.status).toBe(201);
+    expect(first.headers.get("X-Idempotency-Key-Processed")).toBeTruthy();
+    expect(await first.json()).toEqual({ orderId: "order_1", amount: 100 });
+
+    const second = await postOrder("key-1");
+    expect(second.status).toBe(201);
+    expect(second.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(second.headers.get("X-Order")).toBe("order_1");
+    expect(second.headers.get("Content-Type")).toContain("application/json");
+    expect(await second.json()).toEqual({ orderId: "order_1", amount: 100 });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject a reused key with a different body", async () => {
+    await postOrder("key-2", 100);
+    const mismatch = await postOrder("key-2", 200);
+
+    expect(mismatch.status).toBe(422);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should read the key from a url-encoded body", async () => {
+    const post = () =>
+      fetch(`${baseUrl}/api/orders`, {
+        method: "POST",
+        body: new URLSearchParams({
+          "idempotency-key": "form-key",
+          amount: "5",
+        }),
+      });
+
+    await post();
+    const replayed = await post();
+
+    expect(replayed.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should pass through requests without a key", async () => {
+    await fetch(`${baseUrl}/api/orders`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ amount: 1 }),
+    });
+    await fetch(`${baseUrl}/api/orders`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ amount: 1 }),
+    });
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("should release the key when the response never finishes", async () => {
+    const post = () =>
+      fetch(`${baseUrl}/api/fail`, {
+        method: "POST",
+        headers: { "Idempotency-Key": "broken" },
+      });
+
+    await expect(post()).rejects.toThrow();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await expect(post()).rejects.toThrow();
+  });
+});
@@ -0,0 +1,109 @@
+import type {
+  IoRedisClientLike,
+  NodeRedisClientLike,
+} from "../src/server/stores/redis-adapters";
+import {
+  COMPARE_AND_DELETE_SCRIPT,
+  COMPARE_AND_SET_SCRIPT,
+} from "../src/server/stores/redis-store";
+
+/**
+ * In-process stand-in for a Redis server.
+ * Implements the string commands used by RedisStore with PX/NX semantics and
+ * exposes client facades shaped like node-redis v4 and ioredis.
+ */
+export class FakeRedis {
+  private data = new Map<string, { value: string; expiresAt: number | null }>();
+
+  /** GET key */
+  get(key: string): string | null {
+    const entry = this.data.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== null && Date.now() >= entry.expiresAt) {
+      this.data.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  /** SET key value [PX ms] [NX] */
+  set(key: string, value: string, px?: number, nx = false): "OK" | null {
+    if (nx && this.get(key) !== null) return null;
+    this.data.set(key, {
+      value,
+      expiresAt: px === undefined ? null : Date.now() + px,
+    });
+    return "OK";
+  }
+
+  /** DEL key */
+  del(key: string): number {
+    return this.data.delete(key) ? 1 : 0;
+  }
+
+  /**
+   * EVAL script keys args. Lua isn't interpreted; the scripts used by
+   * RedisStore are recognized and run natively instead.
+   */
+  eval(script: string, keys: string[], args: string[]): number {
+    const [key] = keys;
+    if (script === COMPARE_AND_SET_SCRIPT) {
+      if (this.get(key) !== args[0]) return 0;
+      this.set(key, args[1], Number(args[2]));
+      return 1;
+    }
+    if (script === COMPARE_AND_DELETE_SCRIPT) {
+      if (this.get(key) !== args[0]) return 0;
+      return this.del(key);
+    }
+    throw new Error("NOSCRIPT unknown script");
+  }
+
+  /** PTTL key */
+  pttl(key: string): number {
+    const entry = this.data.get(key);
+    if (!entry || this.get(key) === null) return -2;
+    return entry.expiresAt === null ? -1 : entry.expiresAt - Date.now();
+  }
+
+  /**
+   * Client facade with the node-redis v4 method signatures.
+   */
+  asNodeRedisClient(): NodeRedisClientLike {
+    return {
+      get: async (key) => this.get(key),
+      set: async (key, value, options) =>
+        this.set(key, value, options.PX, options.NX === true),
+      del: async (key) => this.del(key),
+      eval: async (script, options) =>
+        this.eval(script, options.keys, options.arguments),
+    };
+  }
+
+  /**
+   * Client facade with the ioredis method signatures.
+   */
+  asIoRedisClient(): IoRedisClientLike {
+    return {
+      get: async (key) => this.get(key),
+      set: async (
+        key: string,
+        value: string,
+        ...args: Array<string | number>
+      ) => {
+        let px: number | undefined;
+        let nx = false;
+        for (let i = 0; i < args.length; i++) {
+          const token = String(args[i]).toUpperCase();
+          if (token === "PX") px = Number(args[++i]);
+          else if (token === "NX") nx = true;
+          else throw new Error(`ERR syntax error near ${token}`);
+        }
+        return this.set(key, value, px, nx);
+      },
+      del: async (key) => this.del(key),
+      eval: async (script: string, numkeys: number, ...args: string[]) =>
+        this.eval(script, args.slice(0, numkeys), args.slice(numkeys)),
+    };
+  }
+}
@@ -0,0 +1,113 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import Fastify, { type FastifyInstance } from "fastify";
+import type { AddressInfo } from "node:net";
+import { fastifyIdempotency } from "../src/adapters/fastify";
+import { MemoryStore } from "../src/server/stores/memory-store";
+
+describe("fastifyIdempotency", () => {
+  let app: FastifyInstance;
+  let handler: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    handler = vi.fn().mockResolvedValue({ orderId: "order_1" });
+
+    app = Fastify();
+    await app.register(fastifyIdempotency, { store: new MemoryStore() });
+    app.post("/api/orders", async (_request, reply) => {
+      reply.code(201).header("X-Order", "order_1");
+      return handler();
+    });
+    app.post("/api/fail", async () => {
+      throw new Error("Handler failed");
+    });
+    await app.listen({ port: 0, host: "127.0.0.1" });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const post = (path: string, key: string, amount = 100) =>
+    fetch(
+      `http://127.0.0.1:${(app.server.address() as AddressInfo).port}${path}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Idempotency-Key": key },
+        body: JSON.stringify({ amount }),
+      }
+    );
+
+  it("should replay the stored reply for duplicates", async () => {
+    const first = await post("/api/orders", "key-1");
+    expect(first.status).toBe(201);
+    expect(first.headers.get("X-Idempotency-Key-Processed")).toBeTruthy();
+    expect(await first.json()).toEqual({ orderId: "order_1" });
+
+    const second = await post("/api/orders", "key-1");
+    expect(second.status).toBe(201);
+    expect(second.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(second.headers.get("X-Order")).toBe("order_1");
+    expect(await second.json()).toEqual({ orderId: "order_1" });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject a reused key with a different body", async () => {
+    await post("/api/orders", "key-2", 100);
+    const mismatch = await post("/api/orders", "key-2", 200);
+
+    expect(mismatch.status).toBe(422);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should release the key when the handler throws", async () => {
+    const first = await post("/api/fail", "key-3");
+    const second = await post("/api/fail", "key-3");
+
+    expect(first.status).toBe(500);
+    expect(second.status).toBe(500);
+    expect(second.headers.get("Idempotent-Replayed")).toBeNull();
+  });
+
+  it("should store error replies when thrown errors are persisted", async () => {
+    const errorApp = Fastify();
+    const failingHandler = vi.fn().mockRejectedValue(new Error("Declined"));
+    await errorApp.register(fastifyIdempotency, {
+      cachePolicy: { statuses: { "5xx": "persist" }, thrownErrors: "persist" },
+    });
+    errorApp.post("/api/fail", failingHandler);
+
+    const send = () =>
+      errorApp.inject({
+        method: "POST",
+        url: "/api/fail",
+        headers: { "Idempotency-Key": "key-5" },
+        payload: { amount: 1 },
+      });
+    const first = await send();
+    const second = await send();
+
+    expect(first.statusCode).toBe(500);
+    expect(second.statusCode).toBe(500);
+    expect(second.headers["idempotent-replayed"]).toBe("true");
+    expect(failingHandler).toHaveBeenCalledTimes(1);
+    await errorApp.close();
+  });
+
+  it("should not apply to GET routes", async () => {
+    const getApp = Fastify();
+    await getApp.register(fastifyIdempotency, {});
+    getApp.get("/ping", async () => "pong");
+
+    const response = await getApp.inject({
+      method: "GET",
+      url: "/ping",
+      headers: { "Idempotency-Key": "key-4" },
+    });
+
+    expect(response.body).toBe("pong");
+    expect(response.headers["x-idempotency-key-processed"]).toBeUndefined();
+    await getApp.close();
+  });
+});
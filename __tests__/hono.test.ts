@@ -0,0 +1,77 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { honoIdempotency } from "../src/adapters/hono";
+import { MemoryStore } from "../src/server/stores/memory-store";
+
+describe("honoIdempotency", () => {
+  let app: Hono;
+  let handler: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    handler = vi.fn().mockReturnValue({ orderId: "order_1" });
+
+    app = new Hono();
+    app.use("/api/*", honoIdempotency({ store: new MemoryStore() }));
+    app.post("/api/orders", (c) => c.json(handler(), 201));
+    app.post("/api/fail", () => {
+      throw new Error("Handler failed");
+    });
+    app.post("/api/stream", (c) => {
+      handler();
+      return c.body(
+        new ReadableStream({
+          pull(controller) {
+            controller.error(new Error("Stream failed"));
+          },
+        })
+      );
+    });
+  });
+
+  const post = (path: string, key: string, amount = 100) =>
+    app.request(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Idempotency-Key": key },
+      body: JSON.stringify({ amount }),
+    });
+
+  it("should replay the stored response for duplicates", async () => {
+    const first = await post("/api/orders", "key-1");
+    expect(first.status).toBe(201);
+    expect(first.headers.get("X-Idempotency-Key-Processed")).toBeTruthy();
+    expect(await first.json()).toEqual({ orderId: "order_1" });
+
+    const second = await post("/api/orders", "key-1");
+    expect(second.status).toBe(201);
+    expect(second.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(await second.json()).toEqual({ orderId: "order_1" });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject a reused key with a different body", async () => {
+    await post("/api/orders", "key-2", 100);
+    const mismatch = await post("/api/orders", "key-2", 200);
+
+    expect(mismatch.status).toBe(422);
+  });
+
+  it("should release the key when the handler throws", async () => {
+    const first = await post("/api/fail", "key-3");
+    const second = await post("/api/fail", "key-3");
+
+    expect(first.status).toBe(500);
+    expect(second.status).toBe(500);
+    expect(second.headers.get("Idempotent-Replayed")).toBeNull();
+  });
+
+  it("should release the key when the response can't be stored", async () => {
+    const first = await post("/api/stream", "key-4");
+    const second = await post("/api/stream", "key-4");
+
+    expect(first.status).toBe(500);
+    expect(second.status).toBe(500);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+});
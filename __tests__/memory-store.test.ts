@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
+import { MemoryStore } from "../src/server/stores/memory-store";
+
+describe("MemoryStore", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should return null for missing keys", async () => {
+    const store = new MemoryStore();
+
+    expect(await store.get("missing")).toBeNull();
+  });
+
+  it("should expire entries after their time to live", async () => {
+    vi.useFakeTimers();
+    const store = new MemoryStore();
+
+    await store.set("key", "value", 1000);
+    expect(await store.get("key")).toBe("value");
+
+    vi.advanceTimersByTime(1001);
+    expect(await store.get("key")).toBeNull();
+  });
+
+  it("should only set a value if the key is absent", async () => {
+    const store = new MemoryStore();
+
+    expect(await store.setIfAbsent("key", "first")).toBe(true);
+    expect(await store.setIfAbsent("key", "second")).toBe(false);
+    expect(await store.get("key")).toBe("first");
+  });
+
+  it("should allow claiming an expired key again", async () => {
+    vi.useFakeTimers();
+    const store = new MemoryStore();
+
+    await store.setIfAbsent("key", "first", 1000);
+    vi.advanceTimersByTime(1001);
+
+    expect(await store.setIfAbsent("key", "second", 1000)).toBe(true);
+    expect(await store.get("key")).toBe("second");
+  });
+
+  it("should let exactly one concurrent claim win", async () => {
+    const store = new MemoryStore();
+
+    const results = await Promise.all(
+      Array.from({ length: 20 }, (_, index) =>
+        store.setIfAbsent("key", `value-${index}`)
+      )
+    );
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it("should only replace a value that matches the expected value", async () => {
+    const store = new MemoryStore();
+    await store.set("key", "lease", 1000);
+
+    expect(await store.compareAndSet("key", "other", "next")).toBe(false);
+    expect(await store.get("key")).toBe("lease");
+    expect(await store.compareAndSet("key", "lease", "next")).toBe(true);
+    expect(await store.get("key")).toBe("next");
+    expect(await store.compareAndSet("missing", "lease", "next")).toBe(false);
+  });
+
+  it("should extend the time to live with compareAndSet", async () => {
+    vi.useFakeTimers();
+    const store = new MemoryStore();
+
+    await store.set("key", "lease", 1000);
+    vi.advanceTimersByTime(800);
+    await store.compareAndSet("key", "lease", "lease", 1000);
+    vi.advanceTimersByTime(800);
+
+    expect(await store.get("key")).toBe("lease");
+  });
+
+  it("should only delete a value that matches the expected value", async () => {
+    const store = new MemoryStore();
+    await store.set("key", "lease");
+
+    expect(await store.compareAndDelete("key", "other")).toBe(false);
+    expect(await store.get("key")).toBe("lease");
+    expect(await store.compareAndDelete("key", "lease")).toBe(true);
+    expect(await store.get("key")).toBeNull();
+  });
+
+  describe("bounds and stats", () => {
+    let currentTime: number;
+    const now = () => currentTime;
+
+    beforeEach(() => {
+      currentTime = 1_000_000;
+    });
+
+    it("should evict the least recently used entry beyond maxEntries", async () => {
+      const store = new MemoryStore({ maxEntries: 2, now });
+
+      await store.set("a", "1");
+      await store.set("b", "2");
+      await store.get("a");
+      await store.set("c", "3");
+
+      expect(await store.get("a")).toBe("1");
+      expect(await store.get("b")).toBeNull();
+      expect(await store.get("c")).toBe("3");
+      expect(store.stats()).toMatchObject({ size: 2, evictions: 1 });
+    });
+
+    it("should count hits and misses", async () => {
+      const store = new MemoryStore({ now });
+
+      await store.set("key", "value", 1000);
+      await store.get("key");
+      await store.get("missing");
+      currentTime += 1001;
+      await store.get("key");
+
+      expect(store.stats()).toEqual({
+        size: 0,
+        hits: 1,
+        misses: 2,
+        evictions: 0,
+        expirations: 1,
+      });
+    });
+
+    it("should sweep expired entries on demand", async () => {
+      const store = new MemoryStore({ sweepIntervalMs: 0, now });
+
+      await store.set("short", "value", 1000);
+      await store.set("long", "value", 5000);
+      currentTime += 2000;
+
+      expect(store.sweep()).toBe(1);
+      expect(store.stats()).toMatchObject({ size: 1, expirations: 1 });
+    });
+
+    it("should not start the sweep timer before the first write", async () => {
+      vi.useFakeTimers();
+      const store = new MemoryStore({ sweepIntervalMs: 1000, now });
+
+      await store.get("key");
+      expect(vi.getTimerCount()).toBe(0);
+
+      await store.set("key", "value");
+      expect(vi.getTimerCount()).toBe(1);
+      store.dispose();
+    });
+
+    it("should sweep expired entries periodically until disposed", async () => {
+      vi.useFakeTimers();
+      const store = new MemoryStore({ sweepIntervalMs: 1000, now });
+
+      await store.set("first", "value", 500);
+      currentTime += 1000;
+      vi.advanceTimersByTime(1000);
+      expect(store.stats().size).toBe(0);
+
+      store.dispose();
+      await store.set("second", "value", 500);
+      currentTime += 1000;
+      vi.advanceTimersByTime(1000);
+      expect(store.stats().size).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,352 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import {
+  render,
+  screen,
+  fireEvent,
+  waitFor,
+  act,
+} from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  useSafeSubmit,
+  type SafeSubmitContext,
+  type SafeSubmitOptions,
+} from "../src/client/use-safe-submit";
+import {
+  enqueueOfflineSubmission,
+  getOfflineSubmissions,
+  isOfflineError,
+  OFFLINE_QUEUE_REPLAY_MESSAGE,
+  replayOfflineQueue,
+  requestOfflineQueueReplay,
+  toFormData,
+} from "../src/client/offline-queue";
+
+function setOnline(online: boolean) {
+  Object.defineProperty(navigator, "onLine", {
+    value: online,
+    configurable: true,
+  });
+}
+
+function formDataOf(fields: Record<string, string>): FormData {
+  const formData = new FormData();
+  Object.entries(fields).forEach(([name, value]) =>
+    formData.append(name, value)
+  );
+  return formData;
+}
+
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+  setOnline(true);
+});
+
+afterEach(() => {
+  setOnline(true);
+});
+
+describe("offline queue", () => {
+  it("should store submissions per form, oldest first", async () => {
+    await enqueueOfflineSubmission(
+      "checkout",
+      "key-1",
+      formDataOf({ email: "a@example.com" })
+    );
+    await new Promise((resolve) => setTimeout(resolve, 2));
+    await enqueueOfflineSubmission(
+      "checkout",
+      "key-2",
+      formDataOf({ email: "b@example.com" })
+    );
+    await enqueueOfflineSubmission(
+      "newsletter",
+      "key-3",
+      formDataOf({ email: "c@example.com" })
+    );
+
+    const submissions = await getOfflineSubmissions("checkout");
+    expect(submissions.map((s) => s.idempotencyKey)).toEqual([
+      "key-1",
+      "key-2",
+    ]);
+
+    const formData = toFormData(submissions[0]);
+    expect(formData.get("email")).toBe("a@example.com");
+    expect(formData.get("idempotency-key")).toBe("key-1");
+  });
+
+  it("should replace a queued submission with the same key", async () => {
+    await enqueueOfflineSubmission(
+      "checkout",
+      "key-1",
+      formDataOf({ email: "a@example.com" })
+    );
+    await enqueueOfflineSubmission(
+      "checkout",
+      "key-1",
+      formDataOf({ email: "b@example.com" })
+    );
+
+    const submissions = await getOfflineSubmissions("checkout");
+    expect(submissions).toHaveLength(1);
+    expect(toFormData(submissions[0]).get("email")).toBe("b@example.com");
+  });
+
+  it("should replay with the original keys and stop at a network error", async () => {
+    await enqueueOfflineSubmission("checkout", "key-1", formDataOf({ n: "1" }));
+    await new Promise((resolve) => setTimeout(resolve, 2));
+    await enqueueOfflineSubmission("checkout", "key-2", formDataOf({ n: "2" }));
+    await new Promise((resolve) => setTimeout(resolve, 2));
+    await enqueueOfflineSubmission("checkout", "key-3", formDataOf({ n: "3" }));
+
+    const submit = vi
+      .fn()
+      .mockResolvedValueOnce("ok")
+      .mockRejectedValueOnce(new Error("Rejected"))
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"));
+    const onFailed = vi.fn();
+
+    const result = await replayOfflineQueue("checkout", submit, { onFailed });
+
+    expect(result).toEqual({ replayed: 1, failed: 1, remaining: 1 });
+    expect(submit.mock.calls.map((call) => call[1])).toEqual([
+      "key-1",
+      "key-2",
+      "key-3",
+    ]);
+    expect(onFailed).toHaveBeenCalledWith(
+      expect.objectContaining({ idempotencyKey: "key-2" }),
+      expect.any(Error)
+    );
+    const remaining = await getOfflineSubmissions("checkout");
+    expect(remaining.map((s) => s.idempotencyKey)).toEqual(["key-3"]);
+  });
+
+  it("should remove a submission that fails with a bug and replay the rest", async () => {
+    await enqueueOfflineSubmission("checkout", "key-1", formDataOf({ n: "1" }));
+    await new Promise((resolve) => setTimeout(resolve, 2));
+    await enqueueOfflineSubmission("checkout", "key-2", formDataOf({ n: "2" }));
+
+    const submit = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError("undefined is not a function"))
+      .mockResolvedValueOnce("ok");
+    const onFailed = vi.fn();
+
+    const result = await replayOfflineQueue("checkout", submit, { onFailed });
+
+    expect(result).toEqual({ replayed: 1, failed: 1, remaining: 0 });
+    expect(onFailed).toHaveBeenCalledWith(
+      expect.objectContaining({ idempotencyKey: "key-1" }),
+      expect.any(TypeError)
+    );
+    expect(await getOfflineSubmissions("checkout")).toHaveLength(0);
+  });
+
+  it("should keep submissions queued when the replay is aborted", async () => {
+    await enqueueOfflineSubmission("checkout", "key-1", formDataOf({ n: "1" }));
+    const controller = new AbortController();
+    const submit = vi.fn(() => {
+      controller.abort();
+      return Promise.reject(
+        new DOMException("The operation was aborted", "AbortError")
+      );
+    });
+    const onFailed = vi.fn();
+
+    const result = await replayOfflineQueue("checkout", submit, {
+      onFailed,
+      signal: controller.signal,
+    });
+
+    expect(result).toEqual({ replayed: 0, failed: 0, remaining: 1 });
+    expect(onFailed).not.toHaveBeenCalled();
+    expect(await getOfflineSubmissions("checkout")).toHaveLength(1);
+  });
+
+  it("should treat network errors and offline failures as offline", () => {
+    expect(isOfflineError(new TypeError("Failed to fetch"))).toBe(true);
+    expect(
+      isOfflineError(
+        new TypeError("NetworkError when attempting to fetch resource.")
+      )
+    ).toBe(true);
+    expect(isOfflineError(new TypeError("Body is unusable"))).toBe(false);
+    expect(isOfflineError(new Error("Bad request"))).toBe(false);
+
+    setOnline(false);
+    expect(isOfflineError(new Error("Bad request"))).toBe(true);
+  });
+
+  it("should ask every window client to replay", async () => {
+    const postMessage = vi.fn();
+    const clients = {
+      matchAll: vi.fn().mockResolvedValue([{ postMessage }, { postMessage }]),
+    };
+
+    await requestOfflineQueueReplay(clients);
+
+    expect(clients.matchAll).toHaveBeenCalledWith({ type: "window" });
+    expect(postMessage).toHaveBeenCalledTimes(2);
+    expect(postMessage).toHaveBeenCalledWith({
+      type: OFFLINE_QUEUE_REPLAY_MESSAGE,
+    });
+  });
+});
+
+function OfflineTestComponent({
+  submitFn,
+  options,
+}: {
+  submitFn: (formData: FormData, context: SafeSubmitContext) => Promise<void>;
+  options: SafeSubmitOptions;
+}) {
+  const { handleSubmit, status, offlineQueue } = useSafeSubmit(
+    submitFn,
+    options
+  );
+
+  return (
+    <form onSubmit={handleSubmit} data-testid="form">
+      <input name="email" type="email" defaultValue="test@example.com" />
+      <button type="submit">Submit</button>
+      <div data-testid="status">{status}</div>
+      <div data-testid="pending">{offlineQueue.pending}</div>
+      <div data-testid="replayed">{offlineQueue.replayed}</div>
+    </form>
+  );
+}
+
+describe("useSafeSubmit offlineQueue", () => {
+  const options: SafeSubmitOptions = {
+    offlineQueue: { formId: "checkout", backgroundSync: false },
+  };
+
+  it("should queue a submission that fails offline and replay it when back online", async () => {
+    setOnline(false);
+    const submitFn = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockResolvedValueOnce(undefined);
+    const onSuccess = vi.fn();
+    render(
+      <OfflineTestComponent
+        submitFn={submitFn}
+        options={{ ...options, onSuccess }}
+      />
+    );
+
+    fireEvent.submit(screen.getByTestId("form"));
+    await waitFor(() => {
+      expect(screen.getByTestId("status")).toHaveTextContent("offline");
+      expect(screen.getByTestId("pending")).toHaveTextContent("1");
+    });
+
+    setOnline(true);
+    act(() => {
+      window.dispatchEvent(new Event("online"));
+    });
+
+    await waitFor(() => {
+      expect(screen.getByTestId("status")).toHaveTextContent("success");
+      expect(screen.getByTestId("pending")).toHaveTextContent("0");
+      expect(screen.getByTestId("replayed")).toHaveTextContent("1");
+    });
+    expect(onSuccess).toHaveBeenCalledTimes(1);
+
+    const [firstFormData, firstContext] = submitFn.mock.calls[0];
+    const [replayFormData, replayContext] = submitFn.mock.calls[1];
+    expect(replayContext.idempotencyKey).toBe(firstContext.idempotencyKey);
+    expect(replayFormData.get("idempotency-key")).toBe(
+      firstFormData.get("idempotency-key")
+    );
+    expect(replayFormData.get("email")).toBe("test@example.com");
+  });
+
+  it("should replay submissions queued before a reload on mount", async () => {
+    await enqueueOfflineSubmission(
+      "checkout",
+      "key-from-last-visit",
+      formDataOf({ email: "a@example.com" })
+    );
+    const submitFn = vi.fn().mockResolvedValue(undefined);
+
+    render(<OfflineTestComponent submitFn={submitFn} options={options} />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId("replayed")).toHaveTextContent("1");
+    });
+    expect(submitFn.mock.calls[0][1].idempotencyKey).toBe(
+      "key-from-last-visit"
+    );
+    expect(await getOfflineSubmissions("checkout")).toHaveLength(0);
+  });
+
+  it("should keep the submission queued when unmounted during a replay", async () => {
+    await enqueueOfflineSubmission(
+      "checkout",
+      "key-from-last-visit",
+      formDataOf({ email: "a@example.com" })
+    );
+    const submitFn = vi.fn(
+      (_formData: FormData, { signal }: SafeSubmitContext) =>
+        new Promise<void>((_resolve, reject) => {
+          signal.addEventListener("abort", () => reject(signal.reason));
+        })
+    );
+    const onError = vi.fn();
+
+    const { unmount } = render(
+      <OfflineTestComponent
+        submitFn={submitFn}
+        options={{ ...options, onError }}
+      />
+    );
+    await waitFor(() => {
+      expect(submitFn).toHaveBeenCalledTimes(1);
+    });
+    unmount();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const submissions = await getOfflineSubmissions("checkout");
+    expect(submissions.map((s) => s.idempotencyKey)).toEqual([
+      "key-from-last-visit",
+    ]);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it("should report a TypeError thrown by a bug instead of queueing", async () => {
+    const submitFn = vi
+      .fn()
+      .mockRejectedValue(new TypeError("Body is unusable"));
+    const onError = vi.fn();
+
+    render(
+      <OfflineTestComponent
+        submitFn={submitFn}
+        options={{ ...options, onError }}
+      />
+    );
+    fireEvent.submit(screen.getByTestId("form"));
+
+    await waitFor(() => {
+      expect(screen.getByTestId("status")).toHaveTextContent("error");
+    });
+    expect(onError).toHaveBeenCalledWith(expect.any(TypeError));
+    expect(await getOfflineSubmissions("checkout")).toHaveLength(0);
+  });
+
+  it("should report errors that are not caused by the network", async () => {
+    const submitFn = vi.fn().mockRejectedValue(new Error("Bad request"));
+
+    render(<OfflineTestComponent submitFn={submitFn} options={options} />);
+    fireEvent.submit(screen.getByTestId("form"));
+
+    await waitFor(() => {
+      expect(screen.getByTestId("status")).toHaveTextContent("error");
+    });
+    expect(await getOfflineSubmissions("checkout")).toHaveLength(0);
+  });
+});
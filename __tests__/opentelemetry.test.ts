@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  createMetricsEventHandler,
+  createSpanEventHandler,
+  getIdempotencyEventAttributes,
+} from "../src/server/opentelemetry";
+import type { IdempotencyEvent } from "../src/server/events";
+
+const base = {
+  idempotencyKey: "key-1",
+  method: "POST",
+  path: "/api/orders",
+  timestamp: 0,
+};
+
+describe("OpenTelemetry helpers", () => {
+  it("should convert events to attributes without the key by default", () => {
+    const event: IdempotencyEvent = {
+      ...base,
+      type: "replayed",
+      requestId: "req-1",
+      status: 201,
+    };
+
+    expect(getIdempotencyEventAttributes(event)).toEqual({
+      "idempotency.event": "replayed",
+      "http.request.method": "POST",
+      "url.path": "/api/orders",
+      "idempotency.request_id": "req-1",
+      "http.response.status_code": 201,
+    });
+    expect(
+      getIdempotencyEventAttributes(event, { includeKey: true })
+    ).toMatchObject({ "idempotency.key": "key-1" });
+  });
+
+  it("should record decisions as span events", () => {
+    const span = { addEvent: vi.fn(), setAttribute: vi.fn() };
+    const onEvent = createSpanEventHandler(() => span);
+
+    onEvent({ ...base, type: "replayed", requestId: "req-1", status: 201 });
+    onEvent({
+      ...base,
+      type: "store-operation",
+      operation: "get",
+      durationMs: 3,
+    });
+
+    expect(span.addEvent).toHaveBeenCalledTimes(1);
+    expect(span.addEvent).toHaveBeenCalledWith(
+      "idempotency.replayed",
+      expect.objectContaining({ "idempotency.request_id": "req-1" })
+    );
+    expect(span.setAttribute).toHaveBeenCalledWith(
+      "idempotency.replayed",
+      true
+    );
+  });
+
+  it("should ignore events without an active span", () => {
+    const onEvent = createSpanEventHandler(() => undefined);
+
+    expect(() =>
+      onEvent({ ...base, type: "claimed", requestId: "req-1" })
+    ).not.toThrow();
+  });
+
+  it("should count decisions and record store durations per route", () => {
+    const add = vi.fn();
+    const record = vi.fn();
+    const meter = {
+      createCounter: vi.fn().mockReturnValue({ add }),
+      createHistogram: vi.fn().mockReturnValue({ record }),
+    };
+    const onEvent = createMetricsEventHandler(meter, {
+      getRoute: (event) => `${event.method} /api/:resource`,
+    });
+
+    onEvent({ ...base, type: "claimed", requestId: "req-1" });
+    onEvent({
+      ...base,
+      type: "store-error",
+      operation: "setIfAbsent",
+      durationMs: 12,
+      error: new Error("timeout"),
+    });
+
+    expect(add).toHaveBeenCalledWith(1, {
+      "idempotency.event": "claimed",
+      "http.route": "POST /api/:resource",
+    });
+    expect(record).toHaveBeenCalledWith(12, {
+      "idempotency.store.operation": "setIfAbsent",
+      "http.route": "POST /api/:resource",
+      error: true,
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { RedisStore } from "../src/server/stores/redis-store";
+import {
+  createIoRedisAdapter,
+  createNodeRedisAdapter,
+  type RedisClientAdapter,
+} from "../src/server/stores/redis-adapters";
+import { FakeRedis } from "./fake-redis";
+
+const adapters: Array<[string, (redis: FakeRedis) => RedisClientAdapter]> = [
+  ["node-redis", (redis) => createNodeRedisAdapter(redis.asNodeRedisClient())],
+  ["ioredis", (redis) => createIoRedisAdapter(redis.asIoRedisClient())],
+];
+
+describe.each(adapters)(
+  "RedisStore with %s adapter",
+  (_name, createAdapter) => {
+    let redis: FakeRedis;
+    let store: RedisStore;
+
+    beforeEach(() => {
+      redis = new FakeRedis();
+      store = new RedisStore(createAdapter(redis), "test:");
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should store values under the key prefix", async () => {
+      await store.set("key", "value");
+
+      expect(redis.get("test:key")).toBe("value");
+      expect(await store.get("key")).toBe("value");
+    });
+
+    it("should treat time to live as milliseconds", async () => {
+      await store.set("key", "value", 24 * 60 * 60 * 1000);
+
+      const ttl = redis.pttl("test:key");
+      expect(ttl).toBeGreaterThan(24 * 60 * 60 * 1000 - 1000);
+      expect(ttl).toBeLessThanOrEqual(24 * 60 * 60 * 1000);
+    });
+
+    it("should expire values after their time to live", async () => {
+      vi.useFakeTimers();
+
+      await store.set("key", "value", 1000);
+      vi.advanceTimersByTime(1000);
+
+      expect(await store.get("key")).toBeNull();
+    });
+
+    it("should only set a value if the key is absent", async () => {
+      expect(await store.setIfAbsent("key", "first", 1000)).toBe(true);
+      expect(await store.setIfAbsent("key", "second", 1000)).toBe(false);
+      expect(await store.get("key")).toBe("first");
+      expect(redis.pttl("test:key")).toBeLessThanOrEqual(1000);
+    });
+
+    it("should compare and set values atomically", async () => {
+      await store.set("key", "lease", 1000);
+
+      expect(await store.compareAndSet("key", "other", "next", 5000)).toBe(
+        false
+      );
+      expect(await store.compareAndSet("key", "lease", "next", 5000)).toBe(
+        true
+      );
+      expect(await store.get("key")).toBe("next");
+      expect(redis.pttl("test:key")).toBeGreaterThan(1000);
+    });
+
+    it("should compare and delete values atomically", async () => {
+      await store.set("key", "lease");
+
+      expect(await store.compareAndDelete("key", "other")).toBe(false);
+      expect(await store.compareAndDelete("key", "lease")).toBe(true);
+      expect(await store.get("key")).toBeNull();
+    });
+
+    it("should delete values", async () => {
+      await store.set("key", "value");
+      await store.delete("key");
+
+      expect(await store.get("key")).toBeNull();
+    });
+  }
+);
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { getRetryDelay, parseRetryAfter } from "../src/client/retry";
+
+describe("parseRetryAfter", () => {
+  it("should parse delay seconds", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+  });
+
+  it("should parse HTTP dates", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:05 GMT")).toBe(5000);
+
+    vi.useRealTimers();
+  });
+
+  it("should return null for missing or invalid values", () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter("soon")).toBeNull();
+  });
+});
+
+describe("getRetryDelay", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const codes = [502, 503];
+
+  it("should back off exponentially without jitter", () => {
+    const error = new Response(null, { status: 503 });
+    const options = { maxAttempts: 5, baseDelayMs: 100, jitter: false };
+
+    expect(getRetryDelay(error, 1, options, codes)).toBe(100);
+    expect(getRetryDelay(error, 2, options, codes)).toBe(200);
+    expect(getRetryDelay(error, 3, options, codes)).toBe(400);
+  });
+
+  it("should cap delays at maxDelayMs", () => {
+    const error = new Response(null, { status: 503 });
+    const options = {
+      maxAttempts: 10,
+      baseDelayMs: 100,
+      maxDelayMs: 300,
+      jitter: false,
+    };
+
+    expect(getRetryDelay(error, 5, options, codes)).toBe(300);
+  });
+
+  it("should apply full jitter", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const error = new Response(null, { status: 503 });
+
+    expect(getRetryDelay(error, 2, { baseDelayMs: 100 }, codes)).toBe(100);
+  });
+
+  it("should stop after maxAttempts", () => {
+    const error = new Response(null, { status: 503 });
+
+    expect(getRetryDelay(error, 3, { maxAttempts: 3 }, codes)).toBeNull();
+  });
+
+  it("should honor Retry-After", () => {
+    const error = new Response(null, {
+      status: 503,
+      headers: { "Retry-After": "2" },
+    });
+
+    expect(getRetryDelay(error, 1, {}, codes)).toBe(2000);
+  });
+
+  it("should only retry configured status codes", () => {
+    const error = new Response(null, { status: 404 });
+
+    expect(getRetryDelay(error, 1, {}, codes)).toBeNull();
+  });
+
+  it("should retry network errors unless disabled", () => {
+    const error = new TypeError("Failed to fetch");
+
+    expect(getRetryDelay(error, 1, { jitter: false }, codes)).toBe(250);
+    expect(
+      getRetryDelay(error, 1, { retryOnNetworkError: false }, codes)
+    ).toBeNull();
+  });
+
+  it("should use a custom shouldRetry predicate", () => {
+    const shouldRetry = vi.fn().mockReturnValue(true);
+    const error = new Error("Custom");
+
+    expect(getRetryDelay(error, 2, { shouldRetry, jitter: false }, codes)).toBe(
+      500
+    );
+    expect(shouldRetry).toHaveBeenCalledWith(error, 2);
+  });
+});
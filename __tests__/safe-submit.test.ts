@@ -0,0 +1,275 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  createSafeSubmit,
+  createSafeSubmitController,
+  type SafeSubmitState,
+} from "../src/client/safe-submit";
+
+let uuidCounter = 0;
+Object.defineProperty(globalThis, "crypto", {
+  value: {
+    randomUUID: () => `test-uuid-${++uuidCounter}`,
+  },
+});
+
+function createForm(): HTMLFormElement {
+  const form = document.createElement("form");
+  form.innerHTML = `
+    <input name="email" value="test@example.com" />
+    <button type="submit">Submit</button>
+  `;
+  document.body.appendChild(form);
+  return form;
+}
+
+function submitForm(form: HTMLFormElement) {
+  form.dispatchEvent(new Event("submit", { bubbles: true, cancelable: true }));
+}
+
+function deferred() {
+  let resolve: () => void = () => {};
+  const promise = new Promise<void>((resolvePromise) => {
+    resolve = resolvePromise;
+  });
+  return { promise, resolve };
+}
+
+describe("createSafeSubmit", () => {
+  let form: HTMLFormElement;
+
+  beforeEach(() => {
+    form = createForm();
+  });
+
+  afterEach(() => {
+    form.remove();
+  });
+
+  it("should submit the form data with the idempotency key", async () => {
+    const submitFn = vi.fn().mockResolvedValue(undefined);
+    const states: SafeSubmitState[] = [];
+    createSafeSubmit(form, submitFn, {
+      onStateChange: (state) => states.push(state),
+    });
+
+    submitForm(form);
+
+    await vi.waitFor(() => {
+      expect(states[states.length - 1]?.status).toBe("success");
+    });
+    const [formData, context] = submitFn.mock.calls[0];
+    expect(formData.get("email")).toBe("test@example.com");
+    expect(formData.get("idempotency-key")).toBe(context.idempotencyKey);
+    expect(states[states.length - 1].idempotencyKey).toBe(
+      context.idempotencyKey
+    );
+    expect(states[0].status).toBe("submitting");
+  });
+
+  it("should prevent the browser's submission", () => {
+    createSafeSubmit(form, vi.fn().mockResolvedValue(undefined));
+    const event = new Event("submit", { bubbles: true, cancelable: true });
+
+    form.dispatchEvent(event);
+
+    expect(event.defaultPrevented).toBe(true);
+  });
+
+  it("should ignore duplicate submits and lock the submit buttons", async () => {
+    const submission = deferred();
+    const submitFn = vi.fn().mockReturnValue(submission.promise);
+    const onSuccess = vi.fn();
+    createSafeSubmit(form, submitFn, { onSuccess });
+    const button = form.querySelector("button") as HTMLButtonElement;
+
+    submitForm(form);
+    submitForm(form);
+
+    expect(button.disabled).toBe(true);
+    expect(submitFn).toHaveBeenCalledTimes(1);
+
+    submission.resolve();
+    await vi.waitFor(() => {
+      expect(onSuccess).toHaveBeenCalledTimes(1);
+    });
+    expect(button.disabled).toBe(false);
+
+    submitForm(form);
+    expect(submitFn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry with the same key", async () => {
+    const submitFn = vi
+      .fn()
+      .mockRejectedValueOnce(new Response(null, { status: 503 }))
+      .mockResolvedValueOnce(undefined);
+    const onSuccess = vi.fn();
+    createSafeSubmit(form, submitFn, {
+      retry: { baseDelayMs: 1, jitter: false },
+      onSuccess,
+    });
+
+    submitForm(form);
+
+    await vi.waitFor(() => {
+      expect(onSuccess).toHaveBeenCalledTimes(1);
+    });
+    expect(submitFn.mock.calls[1][1].idempotencyKey).toBe(
+      submitFn.mock.calls[0][1].idempotencyKey
+    );
+  });
+
+  it("should stop handling the form and abort the submission on unsubscribe", async () => {
+    let signal: AbortSignal | undefined;
+    const submitFn = vi.fn(
+      (_formData: FormData, context: { signal: AbortSignal }) => {
+        signal = context.signal;
+        return new Promise<void>(() => {});
+      }
+    );
+    const unsubscribe = createSafeSubmit(form, submitFn);
+
+    submitForm(form);
+    unsubscribe();
+
+    expect(signal?.aborted).toBe(true);
+    await vi.waitFor(() => {
+      expect((form.querySelector("button") as HTMLButtonElement).disabled).toBe(
+        false
+      );
+    });
+
+    submitForm(form);
+    expect(submitFn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("createSafeSubmitController", () => {
+  it("should notify subscribers and support cancel and reset", async () => {
+    const form = createForm();
+    const submitFn = vi.fn(
+      (_formData: FormData, context: { signal: AbortSignal }) =>
+        new Promise<void>((_resolve, reject) => {
+          context.signal.addEventListener("abort", () =>
+            reject(context.signal.reason)
+          );
+        })
+    );
+    const controller = createSafeSubmitController(submitFn);
+    const listener = vi.fn();
+    controller.subscribe(listener);
+
+    const submission = controller.submit(form);
+    expect(controller.getState().isSubmitting).toBe(true);
+    expect(listener).toHaveBeenCalled();
+    const key = controller.getState().idempotencyKey;
+
+    controller.cancel();
+    await submission;
+    expect(controller.getState().status).toBe("cancelled");
+    expect(controller.getState().idempotencyKey).toBe(key);
+
+    controller.reset();
+    expect(controller.getState()).toMatchObject({
+      status: "idle",
+      idempotencyKey: "",
+      submitCount: 1,
+    });
+    form.remove();
+  });
+
+  it("should ignore submits after a failure until reset", async () => {
+    const form = createForm();
+    const submitFn = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Bad request"))
+      .mockResolvedValueOnce(undefined);
+    const controller = createSafeSubmitController(submitFn);
+
+    await controller.submit(form);
+    await controller.submit(form);
+    expect(controller.getState().status).toBe("error");
+    expect(submitFn).toHaveBeenCalledTimes(1);
+
+    controller.reset();
+    await controller.submit(form);
+    expect(controller.getState().status).toBe("success");
+    form.remove();
+  });
+
+  it("should run calls outside a form and repeat failed ones with the same key", async () => {
+    const controller = createSafeSubmitController<string>(vi.fn());
+    const send = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Bad gateway"))
+      .mockResolvedValueOnce("paid");
+
+    await expect(controller.run("a", send)).resolves.toBeUndefined();
+    expect(controller.getState().status).toBe("error");
+    const key = controller.getState().idempotencyKey;
+
+    await expect(controller.run("a", send)).resolves.toBe("paid");
+    expect(send.mock.calls[1][0].idempotencyKey).toBe(key);
+    expect(controller.getState()).toMatchObject({
+      status: "success",
+      data: "paid",
+    });
+
+    await expect(controller.run("a", send)).resolves.toBeUndefined();
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("should use the latest submit function after update", async () => {
+    const form = createForm();
+    const first = vi.fn().mockResolvedValue("first");
+    const second = vi.fn().mockResolvedValue("second");
+    const controller = createSafeSubmitController(first);
+
+    controller.update(second, {});
+    await controller.submit(form);
+
+    expect(first).not.toHaveBeenCalled();
+    expect(controller.getState().data).toBe("second");
+    form.remove();
+  });
+
+  it("should restore the global fetch after overlapping submissions", async () => {
+    const originalFetch = globalThis.fetch;
+    const fetchSpy = vi
+      .fn()
+      .mockResolvedValue(new Response(null, { status: 200 }));
+    globalThis.fetch = fetchSpy;
+    const sentKeys = () =>
+      fetchSpy.mock.calls.map(([, init]) =>
+        new Headers((init as RequestInit | undefined)?.headers).get(
+          "Idempotency-Key"
+        )
+      );
+    const form = createForm();
+    const first = deferred();
+    const second = deferred();
+    const firstController = createSafeSubmitController(() => first.promise, {
+      patchGlobalFetch: true,
+    });
+    const secondController = createSafeSubmitController(() => second.promise, {
+      patchGlobalFetch: true,
+    });
+
+    const firstSubmission = firstController.submit(form);
+    const secondSubmission = secondController.submit(form);
+    first.resolve();
+    await firstSubmission;
+    await fetch("/api/during");
+    second.resolve();
+    await secondSubmission;
+    await fetch("/api/after");
+
+    expect(globalThis.fetch).toBe(fetchSpy);
+    expect(sentKeys()).toEqual([
+      secondController.getState().idempotencyKey,
+      null,
+    ]);
+    globalThis.fetch = originalFetch;
+    form.remove();
+  });
+});
@@ -0,0 +1,170 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from "vitest";
+import initSqlJs from "sql.js";
+import { PGlite } from "@electric-sql/pglite";
+import {
+  SqlStore,
+  type SqlDialect,
+  type SqlQueryFn,
+} from "../src/server/stores/sql-store";
+
+interface TestDatabase {
+  query: SqlQueryFn;
+  close(): Promise<void>;
+}
+
+/**
+ * SQLite compiled to WebAssembly (sql.js).
+ */
+async function createSqliteDatabase(): Promise<TestDatabase> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  return {
+    async query(sql, params) {
+      const statement = db.prepare(sql);
+      try {
+        statement.bind(params as Array<string | number | null>);
+        const rows: Array<Record<string, unknown>> = [];
+        while (statement.step()) rows.push(statement.getAsObject());
+        return rows;
+      } finally {
+        statement.free();
+      }
+    },
+    async close() {
+      db.close();
+    },
+  };
+}
+
+/**
+ * Postgres compiled to WebAssembly (PGlite).
+ */
+async function createPostgresDatabase(): Promise<TestDatabase> {
+  const db = new PGlite();
+  return {
+    async query(sql, params) {
+      const result = await db.query<Record<string, unknown>>(sql, params);
+      return result.rows;
+    },
+    close: () => db.close(),
+  };
+}
+
+const databases: Array<[SqlDialect, () => Promise<TestDatabase>]> = [
+  ["sqlite", createSqliteDatabase],
+  ["postgres", createPostgresDatabase],
+];
+
+describe.each(databases)("SqlStore (%s)", (dialect, createDatabase) => {
+  let database: TestDatabase;
+  let store: SqlStore;
+  let currentTime: number;
+
+  beforeAll(async () => {
+    database = await createDatabase();
+    store = new SqlStore({
+      query: database.query,
+      dialect,
+      now: () => currentTime,
+    });
+    await store.createSchema();
+  }, 30_000);
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  beforeEach(async () => {
+    currentTime = 1_000_000;
+    await database.query("DELETE FROM idempotency_keys", []);
+  });
+
+  it("should create the schema idempotently", async () => {
+    await expect(store.createSchema()).resolves.toBeUndefined();
+  });
+
+  it("should store, replace and delete values", async () => {
+    await store.set("key", "first");
+    await store.set("key", "second");
+    expect(await store.get("key")).toBe("second");
+
+    await store.delete("key");
+    expect(await store.get("key")).toBeNull();
+  });
+
+  it("should expire values after their time to live", async () => {
+    await store.set("key", "value", 1000);
+    currentTime += 1000;
+
+    expect(await store.get("key")).toBeNull();
+  });
+
+  it("should only insert a value if the key is absent or expired", async () => {
+    expect(await store.setIfAbsent("key", "first", 1000)).toBe(true);
+    expect(await store.setIfAbsent("key", "second", 1000)).toBe(false);
+    expect(await store.get("key")).toBe("first");
+
+    currentTime += 1000;
+    expect(await store.setIfAbsent("key", "third", 1000)).toBe(true);
+    expect(await store.get("key")).toBe("third");
+  });
+
+  it("should let exactly one concurrent claim win", async () => {
+    const results = await Promise.all(
+      Array.from({ length: 10 }, (_, index) =>
+        store.setIfAbsent("key", `value-${index}`)
+      )
+    );
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it("should compare and set values", async () => {
+    await store.set("key", "lease", 1000);
+
+    expect(await store.compareAndSet("key", "other", "next", 5000)).toBe(false);
+    expect(await store.compareAndSet("key", "lease", "next", 5000)).toBe(true);
+    currentTime += 2000;
+    expect(await store.get("key")).toBe("next");
+  });
+
+  it("should not compare and set expired values", async () => {
+    await store.set("key", "lease", 1000);
+    currentTime += 1000;
+
+    expect(await store.compareAndSet("key", "lease", "next")).toBe(false);
+  });
+
+  it("should compare and delete values", async () => {
+    await store.set("key", "lease");
+
+    expect(await store.compareAndDelete("key", "other")).toBe(false);
+    expect(await store.compareAndDelete("key", "lease")).toBe(true);
+    expect(await store.get("key")).toBeNull();
+  });
+
+  it("should purge expired rows", async () => {
+    await store.set("short", "value", 1000);
+    await store.set("long", "value", 5000);
+    currentTime += 2000;
+
+    expect(await store.purgeExpired()).toBe(1);
+    expect(
+      await database.query("SELECT key FROM idempotency_keys", [])
+    ).toEqual([{ key: "long" }]);
+  });
+});
+
+describe("SqlStore table name", () => {
+  it("should reject table names that are not identifiers", () => {
+    expect(
+      () =>
+        new SqlStore({
+          query: async () => [],
+          dialect: "postgres",
+          tableName: "keys; DROP TABLE users",
+        })
+    ).toThrow("Invalid table name");
+  });
+});
@@ -0,0 +1,67 @@
+// @vitest-environment node
+import initSqlJs from "sql.js";
+import { runIdempotencyStoreConformance } from "../src/testing/store-conformance";
+import { MemoryStore } from "../src/server/stores/memory-store";
+import { RedisStore } from "../src/server/stores/redis-store";
+import {
+  createIoRedisAdapter,
+  createNodeRedisAdapter,
+} from "../src/server/stores/redis-adapters";
+import { SqlStore } from "../src/server/stores/sql-store";
+import { TieredStore } from "../src/server/stores/tiered-store";
+import { FakeRedis } from "./fake-redis";
+
+runIdempotencyStoreConformance(() => new MemoryStore(), {
+  name: "MemoryStore",
+  cleanup: (store) => (store as MemoryStore).dispose(),
+});
+
+runIdempotencyStoreConformance(
+  () =>
+    new RedisStore(
+      createNodeRedisAdapter(new FakeRedis().asNodeRedisClient()),
+      "test:"
+    ),
+  { name: "RedisStore with node-redis adapter" }
+);
+
+runIdempotencyStoreConformance(
+  () =>
+    new RedisStore(
+      createIoRedisAdapter(new FakeRedis().asIoRedisClient()),
+      "test:"
+    ),
+  { name: "RedisStore with ioredis adapter" }
+);
+
+runIdempotencyStoreConformance(
+  async () => {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database();
+    const store = new SqlStore({
+      dialect: "sqlite",
+      query: async (sql, params) => {
+        const statement = db.prepare(sql);
+        try {
+          statement.bind(params as Array<string | number | null>);
+          const rows: Array<Record<string, unknown>> = [];
+          while (statement.step()) rows.push(statement.getAsObject());
+          return rows;
+        } finally {
+          statement.free();
+        }
+      },
+    });
+    await store.createSchema();
+    return store;
+  },
+  { name: "SqlStore with SQLite" }
+);
+
+runIdempotencyStoreConformance(
+  () => new TieredStore({ remote: new MemoryStore(), isCacheable: () => true }),
+  {
+    name: "TieredStore caching every value",
+    cleanup: (store) => (store as TieredStore).dispose(),
+  }
+);
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
+import { MemoryStore } from "../src/server/stores/memory-store";
+import { TieredStore } from "../src/server/stores/tiered-store";
+import { withIdempotency } from "../src/server/with-idempotency";
+
+const completedRecord = JSON.stringify({
+  id: "1",
+  state: "completed",
+  response: { status: 200, statusText: "", headers: [], body: "" },
+});
+const inProgressRecord = JSON.stringify({ id: "2", state: "in-progress" });
+
+describe("TieredStore", () => {
+  let remote: MemoryStore;
+  let store: TieredStore;
+
+  beforeEach(() => {
+    remote = new MemoryStore();
+    store = new TieredStore({ remote });
+  });
+
+  afterEach(() => {
+    store.dispose();
+    remote.dispose();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("should read settled records through the local cache", async () => {
+    await remote.set("key", completedRecord);
+    const remoteGet = vi.spyOn(remote, "get");
+
+    expect(await store.get("key")).toBe(completedRecord);
+    expect(await store.get("key")).toBe(completedRecord);
+
+    expect(remoteGet).toHaveBeenCalledTimes(1);
+    expect(store.localStats().hits).toBe(1);
+  });
+
+  it("should always read in-progress records from the remote store", async () => {
+    await remote.set("key", inProgressRecord);
+    const remoteGet = vi.spyOn(remote, "get");
+
+    await store.get("key");
+    await store.get("key");
+
+    expect(remoteGet).toHaveBeenCalledTimes(2);
+  });
+
+  it("should write through to the remote store", async () => {
+    await store.set("key", completedRecord, 1000);
+    const remoteGet = vi.spyOn(remote, "get");
+
+    expect(await remote.get("key")).toBe(completedRecord);
+    remoteGet.mockClear();
+    expect(await store.get("key")).toBe(completedRecord);
+    expect(remoteGet).not.toHaveBeenCalled();
+  });
+
+  it("should answer claims for settled keys without a round trip", async () => {
+    await store.set("key", completedRecord);
+    const remoteSetIfAbsent = vi.spyOn(remote, "setIfAbsent");
+
+    expect(await store.setIfAbsent("key", inProgressRecord)).toBe(false);
+    expect(remoteSetIfAbsent).not.toHaveBeenCalled();
+  });
+
+  it("should cache a record once a lease is completed", async () => {
+    expect(await store.setIfAbsent("key", inProgressRecord)).toBe(true);
+    expect(
+      await store.compareAndSet("key", inProgressRecord, completedRecord)
+    ).toBe(true);
+    const remoteGet = vi.spyOn(remote, "get");
+
+    expect(await store.get("key")).toBe(completedRecord);
+    expect(remoteGet).not.toHaveBeenCalled();
+  });
+
+  it("should expire local copies after the local time to live", async () => {
+    vi.useFakeTimers();
+    store.dispose();
+    store = new TieredStore({ remote, localTimeToLiveMs: 1000 });
+    await remote.set("key", completedRecord);
+    await store.get("key");
+
+    vi.advanceTimersByTime(1001);
+    const remoteGet = vi.spyOn(remote, "get");
+    await store.get("key");
+
+    expect(remoteGet).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not keep local copies longer than the remote time to live", async () => {
+    vi.useFakeTimers();
+    await store.set("key", completedRecord, 500);
+
+    vi.advanceTimersByTime(501);
+
+    expect(await store.get("key")).toBeNull();
+  });
+
+  it("should remove deleted keys from both tiers", async () => {
+    await store.set("key", completedRecord);
+    await store.delete("key");
+
+    expect(await remote.get("key")).toBeNull();
+    expect(await store.get("key")).toBeNull();
+  });
+
+  it("should bound the local cache", async () => {
+    store.dispose();
+    store = new TieredStore({ remote, localMaxEntries: 2 });
+
+    await store.set("a", completedRecord);
+    await store.set("b", completedRecord);
+    await store.set("c", completedRecord);
+
+    expect(store.localStats()).toMatchObject({ size: 2, evictions: 1 });
+  });
+
+  it("should use a custom cacheability check", async () => {
+    store.dispose();
+    store = new TieredStore({ remote, isCacheable: () => false });
+    await store.set("key", completedRecord);
+    const remoteGet = vi.spyOn(remote, "get");
+
+    await store.get("key");
+
+    expect(remoteGet).toHaveBeenCalledTimes(1);
+  });
+
+  it("should replay duplicates under withIdempotency without remote reads", async () => {
+    const handler = vi
+      .fn()
+      .mockImplementation(async () => new Response("created", { status: 201 }));
+    const wrappedHandler = withIdempotency(handler, { store });
+    const createRequest = () =>
+      new Request("http://localhost/api/test", {
+        method: "POST",
+        headers: { "Idempotency-Key": "retry-key" },
+      });
+
+    await wrappedHandler(createRequest());
+    const remoteGet = vi.spyOn(remote, "get");
+    const remoteSetIfAbsent = vi.spyOn(remote, "setIfAbsent");
+    const responses = await Promise.all(
+      Array.from({ length: 5 }, () => wrappedHandler(createRequest()))
+    );
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    for (const response of responses) {
+      expect(response.status).toBe(201);
+      expect(await response.text()).toBe("created");
+    }
+    expect(remoteGet).not.toHaveBeenCalled();
+    expect(remoteSetIfAbsent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,143 @@
+import { renderHook, act } from "@testing-library/react";
+import { describe, it, expect, vi } from "vitest";
+import { useSafeAction } from "../src/client/use-safe-action";
+
+let uuidCounter = 0;
+Object.defineProperty(globalThis, "crypto", {
+  value: {
+    randomUUID: () => `test-uuid-${++uuidCounter}`,
+  },
+});
+
+function createFormData(fields: Record<string, string>): FormData {
+  const formData = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    formData.append(name, value);
+  }
+  return formData;
+}
+
+describe("useSafeAction", () => {
+  it("should add the idempotency key to the form data", async () => {
+    const action = vi.fn(async (_formData: FormData) => "done");
+    const { result } = renderHook(() => useSafeAction(action));
+
+    let value: string | undefined;
+    await act(async () => {
+      value = await result.current.action(createFormData({ email: "a@b.c" }));
+    });
+
+    const formData = action.mock.calls[0][0];
+    expect(value).toBe("done");
+    expect(formData.get("email")).toBe("a@b.c");
+    expect(formData.get("idempotency-key")).toBe(result.current.idempotencyKey);
+    expect(result.current.idempotencyKey).toMatch(/^test-uuid-/);
+  });
+
+  it("should ignore submits while the action is running", async () => {
+    let finish: (value: { ok: boolean }) => void = () => {};
+    const action = vi.fn(
+      (_prevState: { ok: boolean } | null, _formData: FormData) =>
+        new Promise<{ ok: boolean }>((resolve) => {
+          finish = resolve;
+        })
+    );
+    const { result } = renderHook(() => useSafeAction(action));
+    const formData = createFormData({ email: "a@b.c" });
+
+    let first: Promise<{ ok: boolean } | null> = Promise.resolve(null);
+    act(() => {
+      first = result.current.action(null, formData);
+    });
+    expect(result.current.isPending).toBe(true);
+
+    const previousState = { ok: false };
+    await expect(result.current.action(previousState, formData)).resolves.toBe(
+      previousState
+    );
+    expect(action).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      finish({ ok: true });
+      await first;
+    });
+    expect(result.current.isPending).toBe(false);
+  });
+
+  it("should reuse the key until the form changes", async () => {
+    const action = vi.fn(async (_formData: FormData) => undefined);
+    const { result } = renderHook(() => useSafeAction(action));
+
+    await act(async () => {
+      await result.current.action(createFormData({ email: "a@b.c" }));
+      await result.current.action(createFormData({ email: "a@b.c" }));
+      await result.current.action(createFormData({ email: "x@y.z" }));
+    });
+
+    const keys = action.mock.calls.map(([formData]) =>
+      formData.get("idempotency-key")
+    );
+    expect(keys[0]).toBe(keys[1]);
+    expect(keys[2]).not.toBe(keys[0]);
+  });
+
+  it("should keep the key after the action throws", async () => {
+    const action = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Network error"))
+      .mockResolvedValueOnce("done");
+    const { result } = renderHook(() =>
+      useSafeAction(action as (formData: FormData) => Promise<string>)
+    );
+    const formData = createFormData({ email: "a@b.c" });
+
+    await act(async () => {
+      await expect(result.current.action(formData)).rejects.toThrow(
+        "Network error"
+      );
+      await result.current.action(formData);
+    });
+
+    expect(action.mock.calls[0][0].get("idempotency-key")).toBe(
+      action.mock.calls[1][0].get("idempotency-key")
+    );
+  });
+
+  it("should rotate the key after each completion", async () => {
+    const action = vi.fn(async (_formData: FormData) => undefined);
+    const { result } = renderHook(() =>
+      useSafeAction(action, { resubmit: "rotate" })
+    );
+
+    await act(async () => {
+      await result.current.action(createFormData({ email: "a@b.c" }));
+      await result.current.action(createFormData({ email: "a@b.c" }));
+    });
+
+    expect(action.mock.calls[0][0].get("idempotency-key")).not.toBe(
+      action.mock.calls[1][0].get("idempotency-key")
+    );
+  });
+
+  it("should lock after completion until reset", async () => {
+    const action = vi.fn(async (_formData: FormData) => "done");
+    const { result } = renderHook(() =>
+      useSafeAction(action, { resubmit: "lock" })
+    );
+    const formData = createFormData({ email: "a@b.c" });
+
+    await act(async () => {
+      await result.current.action(formData);
+      await expect(result.current.action(formData)).resolves.toBeUndefined();
+    });
+    expect(action).toHaveBeenCalledTimes(1);
+
+    act(() => result.current.reset());
+    expect(result.current.idempotencyKey).toBe("");
+
+    await act(async () => {
+      await result.current.action(formData);
+    });
+    expect(action).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,224 @@
+import { renderHook, act } from "@testing-library/react";
+import { describe, it, expect, vi } from "vitest";
+import {
+  useSafeMutation,
+  type SafeMutationFn,
+} from "../src/client/use-safe-mutation";
+import type { SafeSubmitContext } from "../src/client/use-safe-submit";
+
+let uuidCounter = 0;
+Object.defineProperty(globalThis, "crypto", {
+  value: {
+    randomUUID: () => `test-uuid-${++uuidCounter}`,
+  },
+});
+
+function keysOf(mutation: { mock: { calls: unknown[][] } }): string[] {
+  return mutation.mock.calls.map(
+    ([context]) => (context as SafeSubmitContext).idempotencyKey
+  );
+}
+
+describe("useSafeMutation", () => {
+  it("should pass the arguments and the idempotency key to the mutation", async () => {
+    const mutation = vi.fn(
+      async (_context: SafeSubmitContext, id: string, amount: number) =>
+        `${id}:${amount}`
+    );
+    const { result } = renderHook(() => useSafeMutation(mutation));
+
+    let value: string | undefined;
+    await act(async () => {
+      value = await result.current.mutate("inv_1", 42);
+    });
+
+    expect(value).toBe("inv_1:42");
+    expect(mutation).toHaveBeenCalledWith(
+      expect.objectContaining({ idempotencyKey: expect.any(String) }),
+      "inv_1",
+      42
+    );
+    expect(result.current.status).toBe("success");
+    expect(result.current.data).toBe("inv_1:42");
+    expect(result.current.idempotencyKey).toBe(keysOf(mutation)[0]);
+  });
+
+  it("should send the key with the scoped fetch", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response("ok"));
+    vi.stubGlobal("fetch", fetchMock);
+    const { result } = renderHook(() =>
+      useSafeMutation(async ({ fetch }, id: string) => {
+        await fetch(`/api/invoices/${id}/pay`, { method: "POST" });
+      })
+    );
+
+    await act(async () => {
+      await result.current.mutate("inv_1");
+    });
+
+    const init = fetchMock.mock.calls[0][1] as RequestInit;
+    expect(new Headers(init.headers).get("Idempotency-Key")).toBe(
+      result.current.idempotencyKey
+    );
+    vi.unstubAllGlobals();
+  });
+
+  it("should ignore calls while the mutation is running", async () => {
+    let finish: () => void = () => {};
+    const mutation = vi.fn(
+      () =>
+        new Promise<void>((resolve) => {
+          finish = resolve;
+        })
+    );
+    const { result } = renderHook(() => useSafeMutation(mutation));
+
+    let first: Promise<void | undefined> = Promise.resolve();
+    act(() => {
+      first = result.current.mutate();
+    });
+    expect(result.current.isSubmitting).toBe(true);
+    await expect(result.current.mutate()).resolves.toBeUndefined();
+    expect(mutation).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      finish();
+      await first;
+    });
+    expect(result.current.isSubmitting).toBe(false);
+  });
+
+  it("should lock after a success until reset", async () => {
+    const mutation = vi.fn().mockResolvedValue("done");
+    const { result } = renderHook(() =>
+      useSafeMutation(mutation as SafeMutationFn<[], string>)
+    );
+
+    await act(async () => {
+      await result.current.mutate();
+      await result.current.mutate();
+    });
+    expect(mutation).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      result.current.reset();
+    });
+    expect(result.current.status).toBe("idle");
+    await act(async () => {
+      await result.current.mutate();
+    });
+    expect(mutation).toHaveBeenCalledTimes(2);
+    const keys = keysOf(mutation);
+    expect(keys[1]).not.toBe(keys[0]);
+  });
+
+  it("should keep the key after a failure while the arguments stay the same", async () => {
+    const mutation = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Server error"))
+      .mockRejectedValueOnce(new Error("Server error"))
+      .mockResolvedValueOnce(undefined);
+    const onError = vi.fn();
+    const { result } = renderHook(() =>
+      useSafeMutation(mutation as SafeMutationFn<[string], void>, { onError })
+    );
+
+    await act(async () => {
+      await expect(result.current.mutate("inv_1")).resolves.toBeUndefined();
+    });
+    expect(result.current.status).toBe("error");
+    expect(result.current.error).toEqual(new Error("Server error"));
+    expect(onError).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      await result.current.mutate("inv_1");
+      await result.current.mutate("inv_2");
+    });
+
+    const keys = keysOf(mutation);
+    expect(keys[1]).toBe(keys[0]);
+    expect(keys[2]).not.toBe(keys[0]);
+    expect(result.current.status).toBe("success");
+  });
+
+  it("should rotate the key after each success", async () => {
+    const mutation = vi.fn().mockResolvedValue(undefined);
+    const { result } = renderHook(() =>
+      useSafeMutation(mutation as SafeMutationFn<[string], void>, {
+        resubmit: "rotate",
+      })
+    );
+
+    await act(async () => {
+      await result.current.mutate("inv_1");
+      await result.current.mutate("inv_1");
+    });
+
+    const keys = keysOf(mutation);
+    expect(keys[1]).not.toBe(keys[0]);
+  });
+
+  it("should reuse the key for identical calls in until-change mode", async () => {
+    const mutation = vi.fn().mockResolvedValue(undefined);
+    const { result } = renderHook(() =>
+      useSafeMutation(mutation as SafeMutationFn<[{ id: string }], void>, {
+        resubmit: "until-change",
+      })
+    );
+
+    await act(async () => {
+      await result.current.mutate({ id: "inv_1" });
+      await result.current.mutate({ id: "inv_1" });
+      await result.current.mutate({ id: "inv_2" });
+    });
+
+    const keys = keysOf(mutation);
+    expect(keys[1]).toBe(keys[0]);
+    expect(keys[2]).not.toBe(keys[0]);
+  });
+
+  it("should retry with the same key", async () => {
+    const mutation = vi
+      .fn()
+      .mockRejectedValueOnce(new Response(null, { status: 503 }))
+      .mockResolvedValueOnce("done");
+    const { result } = renderHook(() =>
+      useSafeMutation(mutation as SafeMutationFn<[], string>, {
+        retry: { baseDelayMs: 1, jitter: false },
+      })
+    );
+
+    await act(async () => {
+      await result.current.mutate();
+    });
+
+    expect(mutation).toHaveBeenCalledTimes(2);
+    const keys = keysOf(mutation);
+    expect(keys[1]).toBe(keys[0]);
+    expect(result.current.attempt).toBe(2);
+    expect(result.current.status).toBe("success");
+  });
+
+  it("should cancel the running mutation", async () => {
+    const mutation = vi.fn(
+      ({ signal }: SafeSubmitContext) =>
+        new Promise<void>((_resolve, reject) => {
+          signal.addEventListener("abort", () => reject(signal.reason));
+        })
+    );
+    const onError = vi.fn();
+    const { result } = renderHook(() => useSafeMutation(mutation, { onError }));
+
+    let pending: Promise<void | undefined> = Promise.resolve();
+    act(() => {
+      pending = result.current.mutate();
+    });
+    await act(async () => {
+      result.current.cancel();
+      await pending;
+    });
+
+    expect(result.current.status).toBe("cancelled");
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
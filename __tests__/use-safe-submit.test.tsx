@@ -2,8 +2,10 @@ import { render, screen, fireEvent, waitFor } from "@testing-library/react";
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import {
   useSafeSubmit,
+  type SafeSubmitContext,
   type SafeSubmitOptions,
 } from "../src/client/use-safe-submit";
+import { TimeoutError } from "../src/client/abort";
 
 Object.defineProperty(globalThis, "crypto", {
   value: {
@@ -198,7 +200,7 @@ describe("useSafeSubmit", () => {
     // can't easily test the actual focus call in jsdom...can verify the error handling works
   });
 
-  it("should set Idempotency-Key header when using fetch", async () => {
+  it("should set Idempotency-Key header when patching global fetch", async () => {
     const fetchSpy = vi
       .fn()
       .mockResolvedValue(new Response(null, { status: 200 }));
@@ -212,7 +214,9 @@ describe("useSafeSubmit", () => {
       });
     });
 
-    render(<TestComponent submitFn={submitFn} />);
+    render(
+      <TestComponent submitFn={submitFn} options={{ patchGlobalFetch: true }} />
+    );
 
     const form = screen.getByTestId("form");
     fireEvent.submit(form);
@@ -224,4 +228,831 @@ describe("useSafeSubmit", () => {
       expect(headers.get("Idempotency-Key")).toBe("test-uuid-123");
     });
   });
+
+  it("should pass a key-bound fetch and signal to submitFn", async () => {
+    const fetchSpy = vi
+      .fn()
+      .mockResolvedValue(new Response(null, { status: 200 }));
+    globalThis.fetch = fetchSpy;
+
+    const submitFn = vi
+      .fn()
+      .mockImplementation(
+        async (_formData: FormData, context: SafeSubmitContext) => {
+          expect(context.idempotencyKey).toBe("test-uuid-123");
+          expect(context.signal).toBeInstanceOf(AbortSignal);
+          await context.fetch("/api/test", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      );
+
+    render(<TestComponent submitFn={submitFn} />);
+
+    fireEvent.submit(screen.getByTestId("form"));
+
+    await waitFor(() => {
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      const [_url, init] = fetchSpy.mock.calls[0] as [string, RequestInit];
+      const headers = new Headers(init.headers as HeadersInit);
+      expect(headers.get("Idempotency-Key")).toBe("test-uuid-123");
+      expect(headers.get("Content-Type")).toBe("application/json");
+      expect(init.signal).toBeInstanceOf(AbortSignal);
+    });
+  });
+
+  it("should not patch global fetch by default", async () => {
+    const fetchSpy = vi
+      .fn()
+      .mockResolvedValue(new Response(null, { status: 200 }));
+    globalThis.fetch = fetchSpy;
+
+    const submitFn = vi.fn().mockImplementation(async () => {
+      expect(globalThis.fetch).toBe(fetchSpy);
+      await fetch("/api/unrelated");
+    });
+
+    render(<TestComponent submitFn={submitFn} />);
+
+    fireEvent.submit(screen.getByTestId("form"));
+
+    await waitFor(() => {
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(fetchSpy.mock.calls[0]).toEqual(["/api/unrelated"]);
+    });
+  });
+});
+
+function ResubmitTestComponent({
+  submitFn,
+  options = {},
+}: {
+  submitFn: (formData: FormData) => Promise<void>;
+  options?: SafeSubmitOptions;
+}) {
+  const { handleSubmit, resubmitMode } = useSafeSubmit(submitFn, options);
+
+  return (
+    <form onSubmit={handleSubmit} data-testid="form">
+      <input name="comment" defaultValue="first" data-testid="comment" />
+      <button type="submit" data-testid="submit">
+        Submit
+      </button>
+      <span data-testid="mode">{resubmitMode}</span>
+    </form>
+  );
+}
+
+describe("useSafeSubmit resubmit modes", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  async function submitAndWait(
+    submitFn: ReturnType<typeof vi.fn>,
+    expectedCalls: number
+  ) {
+    fireEvent.submit(screen.getByTestId("form"));
+    await waitFor(() => {
+      expect(submitFn).toHaveBeenCalledTimes(expectedCalls);
+    });
+    // Let the hook finish its post-submit bookkeeping
+    await waitFor(() => {
+      expect(screen.getByTestId("submit")).not.toBeDisabled();
+    });
+  }
+
+  it("should lock after success by default", async () => {
+    const submitFn = vi.fn().mockResolvedValue(undefined);
+
+    render(<ResubmitTestComponent submitFn={submitFn} />);
+    expect(screen.getByTestId("mode")).toHaveTextContent("lock");
+
+    await submitAndWait(submitFn, 1);
+    fireEvent.submit(screen.getByTestId("form"));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(submitFn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should rotate to a fresh key after success", async () => {
+    vi.spyOn(globalThis.crypto, "randomUUID")
+      .mockReturnValueOnce("1-1-1-1-1")
+      .mockReturnValueOnce("2-2-2-2-2");
+    const submitFn = vi.fn().mockResolvedValue(undefined);
+
+    render(
+      <ResubmitTestComponent
+        submitFn={submitFn}
+        options={{ resubmit: "rotate" }}
+      />
+    );
+    expect(screen.getByTestId("mode")).toHaveTextContent("rotate");
+
+    await submitAndWait(submitFn, 1);
+    await submitAndWait(submitFn, 2);
+
+    const keys = submitFn.mock.calls.map(([formData]) =>
+      (formData as FormData).get("idempotency-key")
+    );
+    expect(keys).toEqual(["1-1-1-1-1", "2-2-2-2-2"]);
+  });
+
+  it("should wait for the cooldown before accepting another submit", async () => {
+    const submitFn = vi.fn().mockResolvedValue(undefined);
+
+    render(
+      <ResubmitTestComponent
+        submitFn={submitFn}
+        options={{ resubmit: "rotate", resubmitCooldownMs: 50 }}
+      />
+    );
+
+    await submitAndWait(submitFn, 1);
+    fireEvent.submit(screen.getByTestId("form"));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(submitFn).toHaveBeenCalledTimes(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    await submitAndWait(submitFn, 2);
+  });
+
+  it("should keep the same key until the form changes", async () => {
+    vi.spyOn(globalThis.crypto, "randomUUID")
+      .mockReturnValueOnce("1-1-1-1-1")
+      .mockReturnValueOnce("2-2-2-2-2");
+    const submitFn = vi.fn().mockResolvedValue(undefined);
+
+    render(
+      <ResubmitTestComponent
+        submitFn={submitFn}
+        options={{ resubmit: "until-change" }}
+      />
+    );
+
+    await submitAndWait(submitFn, 1);
+    await submitAndWait(submitFn, 2);
+    fireEvent.change(screen.getByTestId("comment"), {
+      target: { value: "second" },
+    });
+    await submitAndWait(submitFn, 3);
+
+    const keys = submitFn.mock.calls.map(([formData]) =>
+      (formData as FormData).get("idempotency-key")
+    );
+    expect(keys).toEqual(["1-1-1-1-1", "1-1-1-1-1", "2-2-2-2-2"]);
+  });
+});
+
+function RetryTestComponent({
+  submitFn,
+  options = {},
+}: {
+  submitFn: (formData: FormData) => Promise<void>;
+  options?: SafeSubmitOptions;
+}) {
+  const { handleSubmit, attempt, nextRetryAt, error } = useSafeSubmit(
+    submitFn,
+    options
+  );
+
+  return (
+    <form onSubmit={handleSubmit} data-testid="form">
+      <button type="submit" data-testid="submit">
+        Submit
+      </button>
+      <span data-testid="attempt">{attempt}</span>
+      <span data-testid="retrying">{nextRetryAt ? "retrying" : "idle"}</span>
+      {error !== null && <span data-testid="error">{String(error)}</span>}
+    </form>
+  );
+}
+
+describe("useSafeSubmit retries", () => {
+  it("should retry up to maxAttempts with the same key", async () => {
+    const submitFn = vi.fn().mockRejectedValue(new TypeError("offline"));
+
+    render(
+      <RetryTestComponent
+        submitFn={submitFn}
+        options={{ retry: { maxAttempts: 3, baseDelayMs: 1 } }}
+      />
+    );
+
+    fireEvent.submit(screen.getByTestId("form"));
+
+    await waitFor(() => {
+      expect(screen.getByTestId("error")).toHaveTextContent("offline");
+    });
+    expect(submitFn).toHaveBeenCalledTimes(3);
+    expect(screen.getByTestId("attempt")).toHaveTextContent("3");
+
+    const keys = new Set(
+      submitFn.mock.calls.map(([formData]) =>
+        (formData as FormData).get("idempotency-key")
+      )
+    );
+    expect(keys.size).toBe(1);
+  });
+
+  it("should expose the pending retry while waiting", async () => {
+    const submitFn = vi
+      .fn()
+      .mockRejectedValueOnce(
+        new Response(null, { status: 503, headers: { "Retry-After": "0.05" } })
+      )
+      .mockResolvedValueOnce(undefined);
+
+    render(<RetryTestComponent submitFn={submitFn} options={{ retry: {} }} />);
+
+    fireEvent.submit(screen.getByTestId("form"));
+
+    await waitFor(() => {
+      expect(screen.getByTestId("retrying")).toHaveTextContent("retrying");
+      expect(screen.getByTestId("attempt")).toHaveTextContent("1");
+    });
+    await waitFor(() => {
+      expect(submitFn).toHaveBeenCalledTimes(2);
+      expect(screen.getByTestId("retrying")).toHaveTextContent("idle");
+      expect(screen.getByTestId("attempt")).toHaveTextContent("2");
+    });
+  });
+
+  it("should keep submit buttons locked between attempts", async () => {
+    const submitFn = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError("offline"))
+      .mockResolvedValueOnce(undefined);
+
+    render(
+      <RetryTestComponent
+        submitFn={submitFn}
+        options={{ retry: { baseDelayMs: 50, jitter: false } }}
+      />
+    );
+
+    fireEvent.submit(screen.getByTestId("form"));
+
+    await waitFor(() => {
+      expect(screen.getByTestId("retrying")).toHaveTextContent("retrying");
+    });
+    expect(screen.getByTestId("submit")).toBeDisabled();
+
+    await waitFor(() => {
+      expect(submitFn).toHaveBeenCalledTimes(2);
+      expect(screen.getByTestId("submit")).not.toBeDisabled();
+    });
+  });
+
+  it("should not retry when shouldRetry returns false", async () => {
+    const shouldRetry = vi.fn().mockReturnValue(false);
+    const submitFn = vi.fn().mockRejectedValue(new TypeError("offline"));
+
+    render(
+      <RetryTestComponent
+        submitFn={submitFn}
+        options={{ retry: { shouldRetry } }}
+      />
+    );
+
+    fireEvent.submit(screen.getByTestId("form"));
+
+    await waitFor(() => {
+      expect(screen.getByTestId("error")).toBeInTheDocument();
+    });
+    expect(submitFn).toHaveBeenCalledTimes(1);
+    expect(shouldRetry).toHaveBeenCalledWith(expect.any(TypeError), 1);
+  });
+});
+
+function CancelTestComponent({
+  submitFn,
+  options = {},
+}: {
+  submitFn: (formData: FormData, context: SafeSubmitContext) => Promise<void>;
+  options?: SafeSubmitOptions;
+}) {
+  const { handleSubmit, cancel, isSubmitting, error } = useSafeSubmit(
+    submitFn,
+    options
+  );
+
+  return (
+    <form onSubmit={handleSubmit} data-testid="form">
+      <button type="submit" data-testid="submit">
+        Submit
+      </button>
+      <button type="button" onClick={cancel} data-testid="cancel">
+        Cancel
+      </button>
+      <span data-testid="state">{isSubmitting ? "submitting" : "idle"}</span>
+      {error !== null && <span data-testid="error">{String(error)}</span>}
+    </form>
+  );
+}
+
+describe("useSafeSubmit cancellation", () => {
+  it("should abort the signal and re-enable buttons on cancel", async () => {
+    let receivedSignal: AbortSignal | null = null;
+    const onError = vi.fn();
+    const submitFn = vi
+      .fn()
+      .mockImplementation(
+        (_formData: FormData, { signal }: SafeSubmitContext) => {
+          receivedSignal = signal;
+          return new Promise<void>(() => {});
+        }
+      );
+
+    render(<CancelTestComponent submitFn={submitFn} options={{ onError }} />);
+
+    fireEvent.submit(screen.getByTestId("form"));
+    await waitFor(() => {
+      expect(screen.getByTestId("submit")).toBeDisabled();
+    });
+
+    fireEvent.click(screen.getByTestId("cancel"));
+
+    await waitFor(() => {
+      expect(screen.getByTestId("submit")).not.toBeDisabled();
+      expect(screen.getByTestId("state")).toHaveTextContent("idle");
+    });
+    expect(receivedSignal!.aborted).toBe(true);
+    expect(screen.queryByTestId("error")).toBeNull();
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it("should allow submitting again with the same key after cancel", async () => {
+    const submitFn = vi
+      .fn()
+      .mockImplementationOnce(() => new Promise<void>(() => {}))
+      .mockResolvedValueOnce(undefined);
+
+    render(<CancelTestComponent submitFn={submitFn} />);
+
+    fireEvent.submit(screen.getByTestId("form"));
+    await waitFor(() => expect(submitFn).toHaveBeenCalledTimes(1));
+    fireEvent.click(screen.getByTestId("cancel"));
+    await waitFor(() => {
+      expect(screen.getByTestId("state")).toHaveTextContent("idle");
+    });
+
+    fireEvent.submit(screen.getByTestId("form"));
+    await waitFor(() => expect(submitFn).toHaveBeenCalledTimes(2));
+
+    const [first, second] = submitFn.mock.calls.map(([formData]) =>
+      (formData as FormData).get("idempotency-key")
+    );
+    expect(second).toBe(first);
+  });
+
+  it("should stop pending retries on cancel", async () => {
+    const submitFn = vi.fn().mockRejectedValue(new TypeError("offline"));
+
+    render(
+      <CancelTestComponent
+        submitFn={submitFn}
+        options={{ retry: { baseDelayMs: 1000, jitter: false } }}
+      />
+    );
+
+    fireEvent.submit(screen.getByTestId("form"));
+    await waitFor(() => expect(submitFn).toHaveBeenCalledTimes(1));
+
+    fireEvent.click(screen.getByTestId("cancel"));
+    await waitFor(() => {
+      expect(screen.getByTestId("state")).toHaveTextContent("idle");
+    });
+    expect(submitFn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should fail with a TimeoutError when timeoutMs elapses", async () => {
+    const onError = vi.fn();
+    const submitFn = vi
+      .fn()
+      .mockImplementation(() => new Promise<void>(() => {}));
+
+    render(
+      <CancelTestComponent
+        submitFn={submitFn}
+        options={{ timeoutMs: 20, onError }}
+      />
+    );
+
+    fireEvent.submit(screen.getByTestId("form"));
+
+    await waitFor(() => {
+      expect(onError).toHaveBeenCalledWith(expect.any(TimeoutError));
+      expect(screen.getByTestId("error")).toHaveTextContent("timed out");
+      expect(screen.getByTestId("submit")).not.toBeDisabled();
+    });
+  });
+
+  it("should abort the submission on unmount", async () => {
+    let receivedSignal: AbortSignal | null = null;
+    const submitFn = vi
+      .fn()
+      .mockImplementation(
+        (_formData: FormData, { signal }: SafeSubmitContext) => {
+          receivedSignal = signal;
+          return new Promise<void>(() => {});
+        }
+      );
+
+    const { unmount } = render(<CancelTestComponent submitFn={submitFn} />);
+
+    fireEvent.submit(screen.getByTestId("form"));
+    await waitFor(() => expect(submitFn).toHaveBeenCalledTimes(1));
+
+    unmount();
+
+    expect(receivedSignal!.aborted).toBe(true);
+  });
+});
+
+function StatusTestComponent({
+  submitFn,
+  options = {},
+}: {
+  submitFn: (formData: FormData) => Promise<{ id: string }>;
+  options?: SafeSubmitOptions<{ id: string }>;
+}) {
+  const { handleSubmit, cancel, status, data, lastSubmittedAt, submitCount } =
+    useSafeSubmit(submitFn, options);
+
+  return (
+    <form onSubmit={handleSubmit} data-testid="form">
+      <button type="submit" data-testid="submit">
+        Submit
+      </button>
+      <button type="button" onClick={cancel} data-testid="cancel">
+        Cancel
+      </button>
+      <span data-testid="status">{status}</span>
+      <span data-testid="data">{data?.id ?? ""}</span>
+      <span data-testid="count">{submitCount}</span>
+      <span data-testid="submitted-at">{lastSubmittedAt ?? ""}</span>
+    </form>
+  );
+}
+
+describe("useSafeSubmit status", () => {
+  it("should move from idle through submitting to success with data", async () => {
+    let finish: (value: { id: string }) => void = () => {};
+    const onSuccess = vi.fn();
+    const submitFn = vi.fn().mockImplementation(
+      () =>
+        new Promise<{ id: string }>((resolve) => {
+          finish = resolve;
+        })
+    );
+
+    render(<StatusTestComponent submitFn={submitFn} options={{ onSuccess }} />);
+    expect(screen.getByTestId("status")).toHaveTextContent("idle");
+    expect(screen.getByTestId("count")).toHaveTextContent("0");
+    expect(screen.getByTestId("submitted-at")).toHaveTextContent("");
+
+    fireEvent.submit(screen.getByTestId("form"));
+    await waitFor(() => {
+      expect(screen.getByTestId("status")).toHaveTextContent("submitting");
+    });
+    expect(screen.getByTestId("count")).toHaveTextContent("1");
+    expect(screen.getByTestId("submitted-at").textContent).not.toBe("");
+
+    finish({ id: "comment_1" });
+    await waitFor(() => {
+      expect(screen.getByTestId("status")).toHaveTextContent("success");
+      expect(screen.getByTestId("data")).toHaveTextContent("comment_1");
+    });
+    expect(onSuccess).toHaveBeenCalledWith({ id: "comment_1" });
+  });
+
+  it("should report retrying and then error", async () => {
+    const submitFn = vi.fn().mockRejectedValue(new TypeError("offline"));
+
+    render(
+      <StatusTestComponent
+        submitFn={submitFn}
+        options={{ retry: { maxAttempts: 2, baseDelayMs: 50, jitter: false } }}
+      />
+    );
+
+    fireEvent.submit(screen.getByTestId("form"));
+    await waitFor(() => {
+      expect(screen.getByTestId("status")).toHaveTextContent("retrying");
+    });
+    await waitFor(() => {
+      expect(screen.getByTestId("status")).toHaveTextContent("error");
+    });
+  });
+
+  it("should report cancelled", async () => {
+    const submitFn = vi
+      .fn()
+      .mockImplementation(() => new Promise<{ id: string }>(() => {}));
+
+    render(<StatusTestComponent submitFn={submitFn} />);
+
+    fireEvent.submit(screen.getByTestId("form"));
+    await waitFor(() => {
+      expect(screen.getByTestId("status")).toHaveTextContent("submitting");
+    });
+    fireEvent.click(screen.getByTestId("cancel"));
+
+    await waitFor(() => {
+      expect(screen.getByTestId("status")).toHaveTextContent("cancelled");
+    });
+  });
+
+  it("should count submissions but not ignored duplicates", async () => {
+    const submitFn = vi.fn().mockResolvedValue({ id: "1" });
+
+    render(
+      <StatusTestComponent
+        submitFn={submitFn}
+        options={{ resubmit: "rotate" }}
+      />
+    );
+
+    fireEvent.submit(screen.getByTestId("form"));
+    fireEvent.submit(screen.getByTestId("form"));
+    await waitFor(() => {
+      expect(screen.getByTestId("status")).toHaveTextContent("success");
+    });
+    fireEvent.submit(screen.getByTestId("form"));
+
+    await waitFor(() => {
+      expect(screen.getByTestId("count")).toHaveTextContent("2");
+    });
+  });
+});
+
+function PersistTestComponent({
+  submitFn,
+  options = {},
+}: {
+  submitFn: (formData: FormData) => Promise<void>;
+  options?: SafeSubmitOptions;
+}) {
+  const { handleSubmit, status } = useSafeSubmit(submitFn, options);
+
+  return (
+    <form onSubmit={handleSubmit} id="checkout" data-testid="form">
+      <input name="comment" defaultValue="first" data-testid="comment" />
+      <button type="submit" data-testid="submit">
+        Submit
+      </button>
+      <span data-testid="status">{status}</span>
+    </form>
+  );
+}
+
+describe("useSafeSubmit persistKey", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    sessionStorage.clear();
+    localStorage.clear();
+    vi.spyOn(globalThis.crypto, "randomUUID")
+      .mockReturnValueOnce("1-1-1-1-1")
+      .mockReturnValueOnce("2-2-2-2-2");
+  });
+
+  async function submitAndSettle(status: string) {
+    fireEvent.submit(screen.getByTestId("form"));
+    await waitFor(() => {
+      expect(screen.getByTestId("status")).toHaveTextContent(status);
+    });
+  }
+
+  const submittedKeys = (submitFn: ReturnType<typeof vi.fn>) =>
+    submitFn.mock.calls.map(([formData]) =>
+      (formData as FormData).get("idempotency-key")
+    );
+
+  it("should reuse the pending key after a reload", async () => {
+    const submitFn = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError("offline"))
+      .mockResolvedValueOnce(undefined);
+
+    const { unmount } = render(
+      <PersistTestComponent
+        submitFn={submitFn}
+        options={{ persistKey: true }}
+      />
+    );
+    await submitAndSettle("error");
+    unmount();
+
+    render(
+      <PersistTestComponent
+        submitFn={submitFn}
+        options={{ persistKey: true }}
+      />
+    );
+    await submitAndSettle("success");
+
+    expect(submittedKeys(submitFn)).toEqual(["1-1-1-1-1", "1-1-1-1-1"]);
+    expect(sessionStorage.getItem("use-safe-submit:checkout")).toBeNull();
+  });
+
+  it("should not reuse the key once the submission succeeded", async () => {
+    const submitFn = vi.fn().mockResolvedValue(undefined);
+
+    const { unmount } = render(
+      <PersistTestComponent
+        submitFn={submitFn}
+        options={{ persistKey: true }}
+      />
+    );
+    await submitAndSettle("success");
+    unmount();
+
+    render(
+      <PersistTestComponent
+        submitFn={submitFn}
+        options={{ persistKey: true }}
+      />
+    );
+    await submitAndSettle("success");
+
+    expect(submittedKeys(submitFn)).toEqual(["1-1-1-1-1", "2-2-2-2-2"]);
+  });
+
+  it("should not reuse the key for different form data", async () => {
+    const submitFn = vi.fn().mockRejectedValue(new TypeError("offline"));
+
+    const { unmount } = render(
+      <PersistTestComponent
+        submitFn={submitFn}
+        options={{ persistKey: true }}
+      />
+    );
+    await submitAndSettle("error");
+    unmount();
+
+    render(
+      <PersistTestComponent
+        submitFn={submitFn}
+        options={{ persistKey: true }}
+      />
+    );
+    fireEvent.change(screen.getByTestId("comment"), {
+      target: { value: "second" },
+    });
+    await submitAndSettle("error");
+
+    expect(submittedKeys(submitFn)).toEqual(["1-1-1-1-1", "2-2-2-2-2"]);
+  });
+
+  it("should discard expired keys", async () => {
+    const submitFn = vi.fn().mockRejectedValue(new TypeError("offline"));
+    const options: SafeSubmitOptions = {
+      persistKey: { formId: "order", storage: "local", timeToLiveMs: 1000 },
+    };
+
+    const { unmount } = render(
+      <PersistTestComponent submitFn={submitFn} options={options} />
+    );
+    await submitAndSettle("error");
+    unmount();
+    expect(localStorage.getItem("use-safe-submit:order")).not.toBeNull();
+    expect(sessionStorage.length).toBe(0);
+
+    const now = Date.now();
+    vi.spyOn(Date, "now").mockReturnValue(now + 1001);
+    render(<PersistTestComponent submitFn={submitFn} options={options} />);
+    await submitAndSettle("error");
+
+    expect(submittedKeys(submitFn)).toEqual(["1-1-1-1-1", "2-2-2-2-2"]);
+  });
+
+  it("should clear the stored key on reset", async () => {
+    const submitFn = vi.fn().mockRejectedValue(new TypeError("offline"));
+
+    function ResettableForm() {
+      const { handleSubmit, reset, status } = useSafeSubmit(submitFn, {
+        persistKey: { formId: "resettable" },
+      });
+      return (
+        <form onSubmit={handleSubmit} data-testid="form">
+          <button type="button" onClick={reset} data-testid="reset">
+            Reset
+          </button>
+          <span data-testid="status">{status}</span>
+        </form>
+      );
+    }
+
+    render(<ResettableForm />);
+    await submitAndSettle("error");
+    expect(sessionStorage.getItem("use-safe-submit:resettable")).not.toBeNull();
+
+    fireEvent.click(screen.getByTestId("reset"));
+
+    expect(sessionStorage.getItem("use-safe-submit:resettable")).toBeNull();
+  });
+});
+
+function TabTestComponent({
+  tab,
+  submitFn,
+  options,
+}: {
+  tab: string;
+  submitFn: (formData: FormData) => Promise<void>;
+  options: SafeSubmitOptions;
+}) {
+  const { handleSubmit, status } = useSafeSubmit(submitFn, options);
+
+  return (
+    <form onSubmit={handleSubmit} data-testid={`form-${tab}`}>
+      <button type="submit">Submit</button>
+      <span data-testid={`status-${tab}`}>{status}</span>
+    </form>
+  );
+}
+
+describe("useSafeSubmit crossTabLock", () => {
+  function renderTabs(
+    options: SafeSubmitOptions,
+    firstSubmitFn: (formData: FormData) => Promise<void>,
+    secondSubmitFn: (formData: FormData) => Promise<void>
+  ) {
+    render(
+      <>
+        <TabTestComponent tab="a" submitFn={firstSubmitFn} options={options} />
+        <TabTestComponent tab="b" submitFn={secondSubmitFn} options={options} />
+      </>
+    );
+  }
+
+  function deferred() {
+    let resolve: () => void = () => {};
+    const promise = new Promise<void>((resolvePromise) => {
+      resolve = resolvePromise;
+    });
+    return { promise, resolve };
+  }
+
+  it("should block a submit while another tab is submitting", async () => {
+    const firstSubmission = deferred();
+    const firstSubmitFn = vi.fn().mockReturnValue(firstSubmission.promise);
+    const secondSubmitFn = vi.fn().mockResolvedValue(undefined);
+    renderTabs(
+      { crossTabLock: { formId: "checkout" } },
+      firstSubmitFn,
+      secondSubmitFn
+    );
+
+    fireEvent.submit(screen.getByTestId("form-a"));
+    await waitFor(() => {
+      expect(firstSubmitFn).toHaveBeenCalledTimes(1);
+    });
+    fireEvent.submit(screen.getByTestId("form-b"));
+
+    await waitFor(() => {
+      expect(screen.getByTestId("status-b")).toHaveTextContent("blocked");
+    });
+    expect(secondSubmitFn).not.toHaveBeenCalled();
+
+    firstSubmission.resolve();
+    await waitFor(() => {
+      expect(screen.getByTestId("status-a")).toHaveTextContent("success");
+    });
+    fireEvent.submit(screen.getByTestId("form-b"));
+    await waitFor(() => {
+      expect(screen.getByTestId("status-b")).toHaveTextContent("success");
+    });
+    expect(secondSubmitFn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should queue a submit until the other tab is done", async () => {
+    const firstSubmission = deferred();
+    const firstSubmitFn = vi.fn().mockReturnValue(firstSubmission.promise);
+    const secondSubmitFn = vi.fn().mockResolvedValue(undefined);
+    renderTabs(
+      { crossTabLock: { formId: "invoice", mode: "queue" } },
+      firstSubmitFn,
+      secondSubmitFn
+    );
+
+    fireEvent.submit(screen.getByTestId("form-a"));
+    await waitFor(() => {
+      expect(firstSubmitFn).toHaveBeenCalledTimes(1);
+    });
+    fireEvent.submit(screen.getByTestId("form-b"));
+
+    await waitFor(() => {
+      expect(screen.getByTestId("status-b")).toHaveTextContent("queued");
+    });
+    expect(secondSubmitFn).not.toHaveBeenCalled();
+
+    firstSubmission.resolve();
+    await waitFor(() => {
+      expect(screen.getByTestId("status-b")).toHaveTextContent("success");
+    });
+    expect(secondSubmitFn).toHaveBeenCalledTimes(1);
+  });
 });
@@ -0,0 +1,1036 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { withIdempotency } from "../src/server/with-idempotency";
+import { createIdempotencyEngine } from "../src/server/idempotency-engine";
+import { createStoredResponse } from "../src/server/idempotency-record";
+import {
+  combineScopes,
+  headerScope,
+  routeScope,
+  userScope,
+} from "../src/server/scope";
+import {
+  MemoryStore,
+  type IdempotencyStore,
+} from "../src/server/stores/memory-store";
+import { RedisStore } from "../src/server/stores/redis-store";
+import { createNodeRedisAdapter } from "../src/server/stores/redis-adapters";
+import { FakeRedis } from "./fake-redis";
+
+Object.defineProperty(globalThis, "crypto", {
+  value: {
+    subtle: {
+      // Identity "hash" keeps digests deterministic and input-dependent
+      digest: vi.fn(
+        async (_algorithm: string, data: Uint8Array) => new Uint8Array(data)
+      ),
+    },
+  },
+});
+
+describe("withIdempotency", () => {
+  let store: IdempotencyStore;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    vi.clearAllMocks();
+  });
+
+  it("should allow first request with idempotency key", async () => {
+    const handler = vi.fn().mockResolvedValue(new Response("Success"));
+    const wrappedHandler = withIdempotency(handler, { store });
+
+    const request = new Request("http://localhost/api/test", {
+      method: "POST",
+      headers: { "x-idempotency-key": "test-key-123" },
+    });
+
+    const response = await wrappedHandler(request);
+
+    expect(response.status).toBe(200);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should replay the original response for duplicate idempotency key", async () => {
+    const handler = vi
+      .fn()
+      .mockImplementation(async () =>
+        Response.json({ paymentId: "pay_123" }, { status: 201 })
+      );
+    const wrappedHandler = withIdempotency(handler, { store });
+
+    const request = new Request("http://localhost/api/test", {
+      method: "POST",
+      headers: { "x-idempotency-key": "test-key-123" },
+    });
+
+    // First request should succeed
+    const response1 = await wrappedHandler(request);
+    expect(response1.status).toBe(201);
+    expect(response1.headers.get("Idempotent-Replayed")).toBeNull();
+    expect(await response1.json()).toEqual({ paymentId: "pay_123" });
+
+    // Second request with same key should get the same response back
+    const response2 = await wrappedHandler(request);
+    expect(response2.status).toBe(201);
+    expect(response2.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(response2.headers.get("Content-Type")).toBe("application/json");
+    expect(response2.headers.get("X-Idempotency-Key-Processed")).toBe(
+      response1.headers.get("X-Idempotency-Key-Processed")
+    );
+    expect(await response2.json()).toEqual({ paymentId: "pay_123" });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should replay binary response bodies unchanged", async () => {
+    const bytes = new Uint8Array([0, 255, 128, 7, 42]);
+    const handler = vi
+      .fn()
+      .mockImplementation(async () => new Response(bytes, { status: 200 }));
+    const wrappedHandler = withIdempotency(handler, { store });
+
+    const request = new Request("http://localhost/api/test", {
+      method: "POST",
+      headers: { "x-idempotency-key": "binary-key" },
+    });
+
+    await wrappedHandler(request);
+    const replayed = await wrappedHandler(request);
+
+    expect(new Uint8Array(await replayed.arrayBuffer())).toEqual(bytes);
+  });
+
+  it("should return 409 for duplicate while the original is in progress", async () => {
+    let finish: () => void = () => {};
+    const handler = vi.fn().mockImplementation(
+      () =>
+        new Promise<Response>((resolve) => {
+          finish = () => resolve(new Response("Success"));
+        })
+    );
+    const wrappedHandler = withIdempotency(handler, { store });
+
+    const request = new Request("http://localhost/api/test", {
+      method: "POST",
+      headers: { "x-idempotency-key": "test-key-123" },
+    });
+
+    const first = wrappedHandler(request);
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1));
+
+    const duplicate = await wrappedHandler(request);
+    expect(duplicate.status).toBe(409);
+    expect(duplicate.headers.get("Retry-After")).toBe("1");
+
+    finish();
+    expect((await first).status).toBe(200);
+  });
+
+  it("should wait for an in-flight original and replay its response", async () => {
+    const handler = vi.fn().mockImplementation(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      return Response.json({ orderId: "order_1" });
+    });
+    const wrappedHandler = withIdempotency(handler, {
+      store,
+      inFlightPolicy: "wait",
+      pollIntervalMs: 10,
+    });
+
+    const createRequest = () =>
+      new Request("http://localhost/api/test", {
+        method: "POST",
+        headers: { "x-idempotency-key": "slow-key" },
+      });
+
+    const [original, duplicate] = await Promise.all([
+      wrappedHandler(createRequest()),
+      wrappedHandler(createRequest()),
+    ]);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(original.headers.get("Idempotent-Replayed")).toBeNull();
+    expect(duplicate.status).toBe(200);
+    expect(duplicate.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(await duplicate.json()).toEqual({ orderId: "order_1" });
+  });
+
+  it("should reject with 409 when waiting for the original times out", async () => {
+    let finish: () => void = () => {};
+    const handler = vi.fn().mockImplementation(
+      () =>
+        new Promise<Response>((resolve) => {
+          finish = () => resolve(new Response("Success"));
+        })
+    );
+    const wrappedHandler = withIdempotency(handler, {
+      store,
+      inFlightPolicy: "wait",
+      waitTimeoutMs: 30,
+      pollIntervalMs: 10,
+      retryAfterSeconds: 5,
+    });
+
+    const request = new Request("http://localhost/api/test", {
+      method: "POST",
+      headers: { "x-idempotency-key": "stuck-key" },
+    });
+
+    const first = wrappedHandler(request);
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1));
+
+    const duplicate = await wrappedHandler(request);
+    expect(duplicate.status).toBe(409);
+    expect(duplicate.headers.get("Retry-After")).toBe("5");
+
+    finish();
+    await first;
+  });
+
+  it("should run a waiting duplicate if the original is released", async () => {
+    const handler = vi
+      .fn()
+      .mockImplementationOnce(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        throw new Error("Handler failed");
+      })
+      .mockImplementationOnce(async () => new Response("Recovered"));
+    const wrappedHandler = withIdempotency(handler, {
+      store,
+      inFlightPolicy: "wait",
+      pollIntervalMs: 10,
+    });
+
+    const createRequest = () =>
+      new Request("http://localhost/api/test", {
+        method: "POST",
+        headers: { "x-idempotency-key": "released-key" },
+      });
+
+    const first = wrappedHandler(createRequest());
+    const duplicate = wrappedHandler(createRequest());
+
+    await expect(first).rejects.toThrow("Handler failed");
+    const response = await duplicate;
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("Recovered");
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("should run the handler once for concurrent duplicates", async () => {
+    const handler = vi.fn().mockImplementation(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return new Response("Success");
+    });
+    const wrappedHandler = withIdempotency(handler, { store });
+
+    const responses = await Promise.all(
+      Array.from({ length: 10 }, () =>
+        wrappedHandler(
+          new Request("http://localhost/api/test", {
+            method: "POST",
+            headers: { "x-idempotency-key": "concurrent-key" },
+          })
+        )
+      )
+    );
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(
+      responses.filter((response) => response.status === 200)
+    ).toHaveLength(1);
+    expect(
+      responses.filter((response) => response.status === 409)
+    ).toHaveLength(9);
+  });
+
+  it("should return 422 when a key is reused with a different body", async () => {
+    const handler = vi
+      .fn()
+      .mockImplementation(async () => new Response("Success"));
+    const wrappedHandler = withIdempotency(handler, { store });
+
+    const createRequest = (amount: number) =>
+      new Request("http://localhost/api/test", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-idempotency-key": "payment-key",
+        },
+        body: JSON.stringify({ amount }),
+      });
+
+    expect((await wrappedHandler(createRequest(100))).status).toBe(200);
+
+    const mismatch = await wrappedHandler(createRequest(200));
+    expect(mismatch.status).toBe(422);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should return 422 when a key is reused on a different path", async () => {
+    const handler = vi
+      .fn()
+      .mockImplementation(async () => new Response("Success"));
+    const wrappedHandler = withIdempotency(handler, { store });
+
+    const createRequest = (path: string) =>
+      new Request(`http://localhost${path}`, {
+        method: "POST",
+        headers: { "x-idempotency-key": "path-key" },
+      });
+
+    await wrappedHandler(createRequest("/api/orders"));
+    const mismatch = await wrappedHandler(createRequest("/api/refunds"));
+
+    expect(mismatch.status).toBe(422);
+  });
+
+  it("should ignore key order and excluded fields when fingerprinting", async () => {
+    const handler = vi
+      .fn()
+      .mockImplementation(async () => new Response("Success"));
+    const wrappedHandler = withIdempotency(handler, {
+      store,
+      fingerprint: { excludeFields: ["sentAt"] },
+    });
+
+    const createRequest = (body: unknown) =>
+      new Request("http://localhost/api/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+    await wrappedHandler(
+      createRequest({ "idempotency-key": "json-key", a: 1, b: 2, sentAt: 1 })
+    );
+    const replayed = await wrappedHandler(
+      createRequest({ b: 2, sentAt: 2, a: 1, "idempotency-key": "json-key" })
+    );
+
+    expect(replayed.status).toBe(200);
+    expect(replayed.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should fingerprint form data bodies", async () => {
+    const handler = vi
+      .fn()
+      .mockImplementation(async () => new Response("Success"));
+    const wrappedHandler = withIdempotency(handler, { store });
+
+    const createRequest = (email: string) => {
+      const formData = new FormData();
+      formData.append("idempotency-key", "form-key");
+      formData.append("email", email);
+      return new Request("http://localhost/api/test", {
+        method: "POST",
+        body: formData,
+      });
+    };
+
+    await wrappedHandler(createRequest("a@example.com"));
+
+    expect((await wrappedHandler(createRequest("a@example.com"))).status).toBe(
+      200
+    );
+    expect((await wrappedHandler(createRequest("b@example.com"))).status).toBe(
+      422
+    );
+  });
+
+  it("should skip fingerprinting when disabled", async () => {
+    const handler = vi
+      .fn()
+      .mockImplementation(async () => new Response("Success"));
+    const wrappedHandler = withIdempotency(handler, {
+      store,
+      fingerprint: false,
+    });
+
+    const createRequest = (path: string) =>
+      new Request(`http://localhost${path}`, {
+        method: "POST",
+        headers: { "x-idempotency-key": "unchecked-key" },
+      });
+
+    await wrappedHandler(createRequest("/api/a"));
+    const replayed = await wrappedHandler(createRequest("/api/b"));
+
+    expect(replayed.headers.get("Idempotent-Replayed")).toBe("true");
+  });
+
+  it("should extract idempotency key from form data", async () => {
+    const handler = vi.fn().mockResolvedValue(new Response("Success"));
+    const wrappedHandler = withIdempotency(handler, { store });
+
+    const formData = new FormData();
+    formData.append("idempotency-key", "form-key-123");
+    formData.append("email", "test@example.com");
+
+    const request = new Request("http://localhost/api/test", {
+      method: "POST",
+      body: formData,
+    });
+
+    const response = await wrappedHandler(request);
+
+    expect(response.status).toBe(200);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should extract idempotency key from JSON body", async () => {
+    const handler = vi.fn().mockResolvedValue(new Response("Success"));
+    const wrappedHandler = withIdempotency(handler, { store });
+
+    const request = new Request("http://localhost/api/test", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        "idempotency-key": "json-key-123",
+        email: "test@example.com",
+      }),
+    });
+
+    const response = await wrappedHandler(request);
+
+    expect(response.status).toBe(200);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should skip idempotency for GET requests", async () => {
+    const handler = vi.fn().mockResolvedValue(new Response("Success"));
+    const wrappedHandler = withIdempotency(handler, { store });
+
+    const request = new Request("http://localhost/api/test", {
+      method: "GET",
+      headers: { "x-idempotency-key": "test-key-123" },
+    });
+
+    const response = await wrappedHandler(request);
+
+    expect(response.status).toBe(200);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should proceed without idempotency if no key provided", async () => {
+    const handler = vi.fn().mockResolvedValue(new Response("Success"));
+    const wrappedHandler = withIdempotency(handler, { store });
+
+    const request = new Request("http://localhost/api/test", {
+      method: "POST",
+    });
+
+    const response = await wrappedHandler(request);
+
+    expect(response.status).toBe(200);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should add idempotency headers to response", async () => {
+    const handler = vi.fn().mockResolvedValue(new Response("Success"));
+    const wrappedHandler = withIdempotency(handler, { store });
+
+    const request = new Request("http://localhost/api/test", {
+      method: "POST",
+      headers: { "x-idempotency-key": "test-key-123" },
+    });
+
+    const response = await wrappedHandler(request);
+
+    expect(response.headers.get("X-Idempotency-Key-Processed")).toBeTruthy();
+  });
+
+  it("should remove key from store if handler throws", async () => {
+    const error = new Error("Handler failed");
+    const handler = vi.fn().mockRejectedValue(error);
+    const wrappedHandler = withIdempotency(handler, { store });
+
+    const request = new Request("http://localhost/api/test", {
+      method: "POST",
+      headers: { "x-idempotency-key": "test-key-123" },
+    });
+
+    await expect(wrappedHandler(request)).rejects.toThrow("Handler failed");
+
+    const storedValue = await store.get("test-key-123");
+    expect(storedValue).toBeNull();
+  });
+
+  it("should use custom key extractor", async () => {
+    const customExtractor = vi.fn().mockReturnValue("custom-key-123");
+    const handler = vi.fn().mockResolvedValue(new Response("Success"));
+    const wrappedHandler = withIdempotency(handler, {
+      store,
+      keyExtractor: customExtractor,
+    });
+
+    const request = new Request("http://localhost/api/test", {
+      method: "POST",
+    });
+
+    const response = await wrappedHandler(request);
+
+    expect(customExtractor).toHaveBeenCalledWith(request);
+    expect(response.status).toBe(200);
+  });
+
+  it("should handle different key formats", async () => {
+    const handler = vi
+      .fn()
+      .mockImplementation(async () => new Response("Success"));
+    const wrappedHandler = withIdempotency(handler, { store });
+
+    const keys = [
+      "simple-key",
+      "key-with-dashes",
+      "key_with_underscores",
+      "key123",
+    ];
+
+    for (const key of keys) {
+      const request = new Request("http://localhost/api/test", {
+        method: "POST",
+        headers: { "x-idempotency-key": key },
+      });
+
+      const response = await wrappedHandler(request);
+      expect(response.status).toBe(200);
+    }
+
+    // All should be processed successfully
+    expect(handler).toHaveBeenCalledTimes(keys.length);
+  });
+
+  describe("scope", () => {
+    const createHandler = () =>
+      vi
+        .fn()
+        .mockImplementation(async (req: Request) =>
+          Response.json({ user: req.headers.get("x-user") })
+        );
+
+    const createRequest = (
+      headers: Record<string, string>,
+      path = "/api/test"
+    ) =>
+      new Request(`http://localhost${path}`, {
+        method: "POST",
+        headers: { "x-idempotency-key": "shared-key", ...headers },
+      });
+
+    it("should keep the same key from two users apart", async () => {
+      const handler = createHandler();
+      const wrappedHandler = withIdempotency(handler, {
+        store,
+        scope: userScope((req) => req.headers.get("x-user")),
+      });
+
+      const alice = await wrappedHandler(createRequest({ "x-user": "alice" }));
+      const bob = await wrappedHandler(createRequest({ "x-user": "bob" }));
+      const aliceAgain = await wrappedHandler(
+        createRequest({ "x-user": "alice" })
+      );
+
+      expect(await alice.json()).toEqual({ user: "alice" });
+      expect(await bob.json()).toEqual({ user: "bob" });
+      expect(bob.headers.get("Idempotent-Replayed")).toBeNull();
+      expect(aliceAgain.headers.get("Idempotent-Replayed")).toBe("true");
+      expect(await aliceAgain.json()).toEqual({ user: "alice" });
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it("should share the anonymous scope between requests without a user", async () => {
+      const handler = createHandler();
+      const wrappedHandler = withIdempotency(handler, {
+        store,
+        scope: userScope(() => null),
+      });
+
+      await wrappedHandler(createRequest({}));
+      const duplicate = await wrappedHandler(createRequest({}));
+
+      expect(duplicate.headers.get("Idempotent-Replayed")).toBe("true");
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should process the same key on two routes", async () => {
+      const handler = createHandler();
+      const wrappedHandler = withIdempotency(handler, {
+        store,
+        scope: routeScope(),
+      });
+
+      const orders = await wrappedHandler(createRequest({}, "/api/orders"));
+      const refunds = await wrappedHandler(createRequest({}, "/api/refunds"));
+
+      expect(orders.status).toBe(200);
+      expect(refunds.status).toBe(200);
+      expect(refunds.headers.get("Idempotent-Replayed")).toBeNull();
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it("should combine scopes", async () => {
+      const handler = createHandler();
+      const wrappedHandler = withIdempotency(handler, {
+        store,
+        scope: combineScopes(
+          headerScope("X-Tenant-Id"),
+          userScope((req) => req.headers.get("x-user"))
+        ),
+      });
+
+      await wrappedHandler(
+        createRequest({ "x-tenant-id": "acme", "x-user": "alice" })
+      );
+      await wrappedHandler(
+        createRequest({ "x-tenant-id": "globex", "x-user": "alice" })
+      );
+      const duplicate = await wrappedHandler(
+        createRequest({ "x-tenant-id": "acme", "x-user": "alice" })
+      );
+
+      expect(duplicate.headers.get("Idempotent-Replayed")).toBe("true");
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it("should support async scopes and hash them in store keys", async () => {
+      const setIfAbsent = vi.spyOn(store, "setIfAbsent");
+      const wrappedHandler = withIdempotency(createHandler(), {
+        store,
+        scope: async () => "tenant-secret",
+      });
+
+      await wrappedHandler(createRequest({}));
+
+      const storageKey = setIfAbsent.mock.calls[0][0];
+      expect(storageKey).not.toContain("tenant-secret");
+      expect(storageKey.endsWith(":shared-key")).toBe(true);
+    });
+  });
+
+  describe("cachePolicy", () => {
+    const createRequest = () =>
+      new Request("http://localhost/api/test", {
+        method: "POST",
+        headers: { "x-idempotency-key": "policy-key" },
+      });
+
+    const createStatusHandler = (...statuses: number[]) => {
+      const handler = vi.fn();
+      statuses.forEach((status) =>
+        handler.mockImplementationOnce(
+          async () => new Response(`status ${status}`, { status })
+        )
+      );
+      return handler;
+    };
+
+    it("should release the key for 5xx and 429 responses by default", async () => {
+      for (const status of [500, 503, 429]) {
+        const handler = createStatusHandler(status, 201);
+        const wrappedHandler = withIdempotency(handler, {
+          store: new MemoryStore(),
+        });
+
+        const failed = await wrappedHandler(createRequest());
+        const retried = await wrappedHandler(createRequest());
+
+        expect(failed.status).toBe(status);
+        expect(retried.status).toBe(201);
+        expect(retried.headers.get("Idempotent-Replayed")).toBeNull();
+        expect(handler).toHaveBeenCalledTimes(2);
+      }
+    });
+
+    it("should persist 4xx responses by default", async () => {
+      const handler = createStatusHandler(400, 201);
+      const wrappedHandler = withIdempotency(handler, { store });
+
+      await wrappedHandler(createRequest());
+      const duplicate = await wrappedHandler(createRequest());
+
+      expect(duplicate.status).toBe(400);
+      expect(duplicate.headers.get("Idempotent-Replayed")).toBe("true");
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should apply status class and status code overrides", async () => {
+      const handler = createStatusHandler(500, 503, 201);
+      const wrappedHandler = withIdempotency(handler, {
+        store,
+        cachePolicy: { statuses: { "5xx": "persist", 500: "release" } },
+      });
+
+      await wrappedHandler(createRequest());
+      await wrappedHandler(createRequest());
+      const duplicate = await wrappedHandler(createRequest());
+
+      expect(duplicate.status).toBe(503);
+      expect(duplicate.headers.get("Idempotent-Replayed")).toBe("true");
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it("should use the shouldPersist predicate", async () => {
+      const handler = createStatusHandler(201, 201);
+      const shouldPersist = vi.fn().mockReturnValue(false);
+      const wrappedHandler = withIdempotency(handler, {
+        store,
+        cachePolicy: { shouldPersist },
+      });
+
+      await wrappedHandler(createRequest());
+      await wrappedHandler(createRequest());
+
+      expect(shouldPersist).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 201 })
+      );
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it("should store thrown errors as error responses", async () => {
+      const handler = vi.fn().mockRejectedValue(new Error("Card declined"));
+      const wrappedHandler = withIdempotency(handler, {
+        store,
+        cachePolicy: { thrownErrors: "persist" },
+      });
+
+      const first = await wrappedHandler(createRequest());
+      const duplicate = await wrappedHandler(createRequest());
+
+      expect(first.status).toBe(500);
+      expect(first.headers.get("X-Idempotency-Key-Processed")).toBeTruthy();
+      expect(await first.json()).toEqual({
+        error: "Internal Server Error",
+        message: "The request failed",
+      });
+      expect(duplicate.status).toBe(500);
+      expect(duplicate.headers.get("Idempotent-Replayed")).toBe("true");
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should convert thrown errors with errorResponse", async () => {
+      const handler = vi.fn().mockRejectedValue(new Error("Card declined"));
+      const wrappedHandler = withIdempotency(handler, {
+        store,
+        cachePolicy: {
+          thrownErrors: "persist",
+          errorResponse: (error) =>
+            Response.json({ error: (error as Error).message }, { status: 402 }),
+        },
+      });
+
+      const first = await wrappedHandler(createRequest());
+      const duplicate = await wrappedHandler(createRequest());
+
+      expect(first.status).toBe(402);
+      expect(await duplicate.json()).toEqual({ error: "Card declined" });
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should release the key when errorResponse throws", async () => {
+      const handler = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("Card declined"))
+        .mockResolvedValueOnce(new Response("OK"));
+      const wrappedHandler = withIdempotency(handler, {
+        store,
+        leaseMs: 60,
+        cachePolicy: {
+          thrownErrors: "persist",
+          errorResponse: () => {
+            throw new Error("Render failed");
+          },
+        },
+      });
+
+      await expect(wrappedHandler(createRequest())).rejects.toThrow(
+        "Card declined"
+      );
+      const retry = await wrappedHandler(createRequest());
+
+      expect(retry.status).toBe(200);
+      expect(await retry.text()).toBe("OK");
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("leases", () => {
+    const createRequest = () =>
+      new Request("http://localhost/api/test", {
+        method: "POST",
+        headers: { "x-idempotency-key": "lease-key" },
+      });
+
+    const createResponse = (body: string) =>
+      createStoredResponse({
+        status: 200,
+        headers: [],
+        body: new TextEncoder().encode(body),
+      });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should hold a short lease while in progress and store the result for the full time to live", async () => {
+      const setIfAbsent = vi.spyOn(store, "setIfAbsent");
+      const compareAndSet = vi.spyOn(store, "compareAndSet");
+      const wrappedHandler = withIdempotency(
+        vi.fn().mockResolvedValue(new Response("Success")),
+        { store, leaseMs: 5000, timeToLiveMs: 60_000 }
+      );
+
+      await wrappedHandler(createRequest());
+
+      expect(setIfAbsent).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(String),
+        5000
+      );
+      expect(compareAndSet).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.stringContaining('"in-progress"'),
+        expect.stringContaining('"completed"'),
+        60_000
+      );
+    });
+
+    it("should renew the lease while the handler runs", async () => {
+      vi.useFakeTimers();
+      const engine = createIdempotencyEngine({
+        store,
+        leaseMs: 1000,
+        heartbeatIntervalMs: 300,
+      });
+
+      const claim = await engine.claim(createRequest());
+      await vi.advanceTimersByTimeAsync(2500);
+      const duplicate = await engine.claim(createRequest());
+
+      expect(claim.type).toBe("claimed");
+      expect(duplicate.type).toBe("respond");
+      if (duplicate.type === "respond") {
+        expect(duplicate.response.status).toBe(409);
+      }
+      if (claim.type === "claimed") {
+        await claim.complete(createResponse("done"));
+      }
+    });
+
+    it("should let a retry reclaim the key after the lease of a dead worker expires", async () => {
+      vi.useFakeTimers();
+      const engine = createIdempotencyEngine({
+        store,
+        leaseMs: 1000,
+        // No renewals before the lease expires, as if the process had died
+        heartbeatIntervalMs: 60_000,
+      });
+
+      const deadWorker = await engine.claim(createRequest());
+      await vi.advanceTimersByTimeAsync(1001);
+      const retry = await engine.claim(createRequest());
+
+      expect(deadWorker.type).toBe("claimed");
+      expect(retry.type).toBe("claimed");
+      if (deadWorker.type !== "claimed" || retry.type !== "claimed") return;
+
+      // The worker that lost its lease must not overwrite the new owner
+      await deadWorker.complete(createResponse("stale"));
+      await retry.complete(createResponse("fresh"));
+      await deadWorker.release();
+
+      const replay = await engine.claim(createRequest());
+      expect(replay.type).toBe("respond");
+      if (replay.type === "respond") {
+        expect(await replay.response.text()).toBe("fresh");
+      }
+    });
+  });
+
+  describe("onEvent", () => {
+    const createRequest = (body = "{}") =>
+      new Request("http://localhost/api/orders", {
+        method: "POST",
+        headers: {
+          "x-idempotency-key": "event-key",
+          "Content-Type": "application/json",
+        },
+        body,
+      });
+
+    it("should report claims, completions and replays", async () => {
+      const onEvent = vi.fn();
+      const wrappedHandler = withIdempotency(
+        vi
+          .fn()
+          .mockImplementation(
+            async () => new Response("created", { status: 201 })
+          ),
+        { store, onEvent }
+      );
+
+      await wrappedHandler(createRequest());
+      await wrappedHandler(createRequest());
+
+      const decisions = onEvent.mock.calls
+        .map(([event]) => event)
+        .filter((event) => !event.type.startsWith("store-"));
+      expect(decisions.map((event) => event.type)).toEqual([
+        "claimed",
+        "completed",
+        "replayed",
+      ]);
+      expect(decisions[0]).toMatchObject({
+        idempotencyKey: "event-key",
+        method: "POST",
+        path: "/api/orders",
+      });
+      expect(decisions[1]).toMatchObject({ status: 201, state: "completed" });
+      expect(decisions[2]).toMatchObject({
+        requestId: decisions[0].requestId,
+        status: 201,
+      });
+    });
+
+    it("should report in-flight conflicts and fingerprint mismatches", async () => {
+      const onEvent = vi.fn();
+      const engine = createIdempotencyEngine({ store, onEvent });
+
+      const claim = await engine.claim(createRequest());
+      await engine.claim(createRequest());
+      await engine.claim(createRequest('{"amount":2}'));
+
+      const types = onEvent.mock.calls.map(([event]) => event.type);
+      expect(types).toContain("in-flight-conflict");
+      expect(types).toContain("fingerprint-mismatch");
+      if (claim.type === "claimed") await claim.release();
+      expect(onEvent).toHaveBeenLastCalledWith(
+        expect.objectContaining({ type: "released", reason: "caller" })
+      );
+    });
+
+    it("should report keys released by the cache policy or a thrown error", async () => {
+      const onEvent = vi.fn();
+      const wrappedHandler = withIdempotency(
+        vi
+          .fn()
+          .mockImplementationOnce(
+            async () => new Response("down", { status: 503 })
+          )
+          .mockRejectedValueOnce(new Error("boom")),
+        { store, onEvent }
+      );
+
+      await wrappedHandler(createRequest());
+      await expect(wrappedHandler(createRequest())).rejects.toThrow("boom");
+
+      const released = onEvent.mock.calls
+        .map(([event]) => event)
+        .filter((event) => event.type === "released");
+      expect(released).toEqual([
+        expect.objectContaining({ reason: "cache-policy", status: 503 }),
+        expect.objectContaining({ reason: "thrown" }),
+      ]);
+    });
+
+    it("should report a release once, and only if the key was deleted", async () => {
+      const onEvent = vi.fn();
+      vi.spyOn(store, "compareAndSet").mockRejectedValue(new Error("down"));
+      const wrappedHandler = withIdempotency(
+        vi.fn().mockResolvedValue(new Response("OK")),
+        { store, onEvent }
+      );
+
+      await expect(wrappedHandler(createRequest())).rejects.toThrow("down");
+
+      // The lease was lost: there's nothing to release
+      vi.spyOn(store, "compareAndDelete").mockResolvedValueOnce(false);
+      const engine = createIdempotencyEngine({ store, onEvent });
+      const claim = await engine.claim(createRequest());
+      if (claim.type === "claimed") await claim.release();
+
+      const released = onEvent.mock.calls
+        .map(([event]) => event)
+        .filter((event) => event.type === "released");
+      expect(released).toEqual([expect.objectContaining({ reason: "thrown" })]);
+    });
+
+    it("should report store calls with their duration", async () => {
+      const onEvent = vi.fn();
+      const failingStore: IdempotencyStore = {
+        get: vi.fn().mockResolvedValue(null),
+        set: vi.fn(),
+        setIfAbsent: vi.fn().mockRejectedValue(new Error("unavailable")),
+        compareAndSet: vi.fn(),
+        compareAndDelete: vi.fn(),
+        delete: vi.fn(),
+      };
+      const engine = createIdempotencyEngine({ store: failingStore, onEvent });
+
+      await expect(engine.claim(createRequest())).rejects.toThrow(
+        "unavailable"
+      );
+
+      expect(onEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "store-error",
+          operation: "setIfAbsent",
+          durationMs: expect.any(Number),
+          error: expect.any(Error),
+        })
+      );
+    });
+
+    it("should report errors of the built-in stores only as events", async () => {
+      const consoleError = vi.spyOn(console, "error");
+      const onEvent = vi.fn();
+      const client = new FakeRedis().asNodeRedisClient();
+      client.get = vi.fn().mockRejectedValue(new Error("Connection lost"));
+      client.eval = vi.fn().mockRejectedValue(new Error("Connection lost"));
+      const wrappedHandler = withIdempotency(
+        vi.fn().mockRejectedValue(new Error("boom")),
+        { store: new RedisStore(createNodeRedisAdapter(client)), onEvent }
+      );
+
+      await expect(wrappedHandler(createRequest())).rejects.toThrow("boom");
+      await expect(wrappedHandler(createRequest())).rejects.toThrow(
+        "Connection lost"
+      );
+
+      const storeErrors = onEvent.mock.calls
+        .map(([event]) => event)
+        .filter((event) => event.type === "store-error");
+      expect(storeErrors).toEqual([
+        expect.objectContaining({ operation: "compareAndDelete" }),
+        expect.objectContaining({ operation: "get" }),
+      ]);
+      expect(onEvent).not.toHaveBeenCalledWith(
+        expect.objectContaining({ type: "released" })
+      );
+      expect(consoleError).not.toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+
+    it("should not fail requests when the handler throws", async () => {
+      const consoleError = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const wrappedHandler = withIdempotency(
+        vi.fn().mockResolvedValue(new Response("ok")),
+        {
+          store,
+          onEvent: () => {
+            throw new Error("listener failed");
+          },
+        }
+      );
+
+      const response = await wrappedHandler(createRequest());
+
+      expect(response.status).toBe(200);
+      expect(consoleError).toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,177 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from "vitest";
+import {
+  IdempotencyConflictError,
+  withIdempotentAction,
+} from "../src/server/with-idempotent-action";
+import { MemoryStore } from "../src/server/stores/memory-store";
+
+function createFormData(fields: Record<string, string>): FormData {
+  const formData = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    formData.append(name, value);
+  }
+  return formData;
+}
+
+describe("withIdempotentAction", () => {
+  it("should run the action once and replay its result", async () => {
+    const action = vi.fn(async (_prevState: unknown, formData: FormData) => ({
+      email: formData.get("email"),
+      subscribedAt: 1,
+    }));
+    const safeAction = withIdempotentAction(action, {
+      store: new MemoryStore(),
+    });
+    const formData = createFormData({
+      email: "test@example.com",
+      "idempotency-key": "key-1",
+    });
+
+    const first = await safeAction(null, formData);
+    const second = await safeAction(null, formData);
+
+    expect(first).toEqual({ email: "test@example.com", subscribedAt: 1 });
+    expect(second).toEqual(first);
+    expect(action).toHaveBeenCalledTimes(1);
+  });
+
+  it("should support actions that only receive form data", async () => {
+    const action = vi.fn(async (_formData: FormData) => undefined);
+    const safeAction = withIdempotentAction(action);
+    const formData = createFormData({ "idempotency-key": "key-2" });
+
+    await expect(safeAction(formData)).resolves.toBeUndefined();
+    await expect(safeAction(formData)).resolves.toBeUndefined();
+    expect(action).toHaveBeenCalledTimes(1);
+  });
+
+  it("should run the action every time without a key", async () => {
+    const action = vi.fn(async (_formData: FormData) => "done");
+    const safeAction = withIdempotentAction(action);
+
+    await safeAction(createFormData({ email: "test@example.com" }));
+    await safeAction(createFormData({ email: "test@example.com" }));
+
+    expect(action).toHaveBeenCalledTimes(2);
+  });
+
+  it("should release the key when the action throws", async () => {
+    const action = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Database unavailable"))
+      .mockResolvedValueOnce("done");
+    const safeAction = withIdempotentAction(
+      action as (formData: FormData) => Promise<string>
+    );
+    const formData = createFormData({ "idempotency-key": "key-3" });
+
+    await expect(safeAction(formData)).rejects.toThrow("Database unavailable");
+    await expect(safeAction(formData)).resolves.toBe("done");
+    expect(action).toHaveBeenCalledTimes(2);
+  });
+
+  it("should replay results with the types of the first call", async () => {
+    const result = {
+      createdAt: new Date(0),
+      totals: new Map([["EUR", BigInt(10)]]),
+      tags: new Set(["new"]),
+      note: undefined,
+      $type: "kept",
+    };
+    const action = vi.fn(async (_formData: FormData) => result);
+    const safeAction = withIdempotentAction(action);
+    const formData = createFormData({ "idempotency-key": "key-types" });
+
+    await safeAction(formData);
+    const replay = await safeAction(formData);
+
+    expect(replay).toStrictEqual(result);
+    expect(replay.createdAt).toBeInstanceOf(Date);
+    expect(action).toHaveBeenCalledTimes(1);
+  });
+
+  it("should return a result that can't be stored without running duplicates", async () => {
+    const result = { onDone: () => {} };
+    const action = vi.fn(async (_formData: FormData) => result);
+    const safeAction = withIdempotentAction(action);
+    const formData = createFormData({ "idempotency-key": "key-serialize" });
+
+    await expect(safeAction(formData)).resolves.toBe(result);
+    const duplicate = safeAction(formData);
+
+    await expect(duplicate).rejects.toBeInstanceOf(IdempotencyConflictError);
+    await expect(duplicate).rejects.toMatchObject({ status: 409 });
+    expect(action).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject a duplicate while the action is running", async () => {
+    let finish: (value: string) => void = () => {};
+    const action = vi.fn(
+      (_formData: FormData) =>
+        new Promise<string>((resolve) => {
+          finish = resolve;
+        })
+    );
+    const safeAction = withIdempotentAction(action);
+    const formData = createFormData({ "idempotency-key": "key-4" });
+
+    const first = safeAction(formData);
+    await vi.waitFor(() => expect(action).toHaveBeenCalled());
+
+    const duplicate = await safeAction(formData).catch((error) => error);
+    expect(duplicate).toBeInstanceOf(IdempotencyConflictError);
+    expect(duplicate.status).toBe(409);
+    expect(duplicate.retryAfterSeconds).toBe(1);
+
+    finish("done");
+    await expect(first).resolves.toBe("done");
+  });
+
+  it("should reject a key reused with different form data", async () => {
+    const action = vi.fn(async (_formData: FormData) => "done");
+    const safeAction = withIdempotentAction(action);
+
+    await safeAction(
+      createFormData({ email: "a@example.com", "idempotency-key": "key-5" })
+    );
+    const error = await safeAction(
+      createFormData({ email: "b@example.com", "idempotency-key": "key-5" })
+    ).catch((err) => err);
+
+    expect(error).toBeInstanceOf(IdempotencyConflictError);
+    expect(error.status).toBe(422);
+    expect(action).toHaveBeenCalledTimes(1);
+  });
+
+  it("should only replay results within the same scope", async () => {
+    const action = vi.fn(
+      async (userId: string, _formData: FormData) => `done for ${userId}`
+    );
+    const safeAction = withIdempotentAction(action, {
+      scope: (userId) => `user:${userId}`,
+    });
+    const formData = createFormData({ "idempotency-key": "key-scope" });
+
+    await safeAction("alice", formData);
+    const otherUser = await safeAction("bób", formData);
+    const duplicate = await safeAction("alice", formData);
+
+    expect(otherUser).toBe("done for bób");
+    expect(duplicate).toBe("done for alice");
+    expect(action).toHaveBeenCalledTimes(2);
+  });
+
+  it("should use a custom key extractor", async () => {
+    const action = vi.fn(async (_formData: FormData) => "done");
+    const safeAction = withIdempotentAction(action, {
+      keyExtractor: (formData) => formData.get("request-id") as string | null,
+    });
+    const formData = createFormData({ "request-id": "key-6" });
+
+    await safeAction(formData);
+    await safeAction(formData);
+
+    expect(action).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,176 @@
+import {
+  createIdempotencyEngine,
+  type IdempotencyOptions,
+} from "../server/idempotency-engine";
+import {
+  PROCESSED_HEADER,
+  createStoredResponse,
+} from "../server/idempotency-record";
+import {
+  concatBytes,
+  toBytes,
+  toFetchRequest,
+  toHeaderPairs,
+  toNodeHeaders,
+} from "./node-http";
+
+/**
+ * Subset of the Express request used by the middleware.
+ */
+export interface ExpressRequestLike {
+  method: string;
+  originalUrl?: string;
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+}
+
+/**
+ * Subset of the Express (Node.js) response used by the middleware.
+ */
+export interface ExpressResponseLike {
+  statusCode: number;
+  statusMessage: string;
+  write(chunk: unknown, ...rest: unknown[]): boolean;
+  end(...args: unknown[]): unknown;
+  setHeader(name: string, value: string | string[]): unknown;
+  getHeaders(): Record<string, string | number | string[] | undefined>;
+  on(event: "finish" | "close", listener: () => void): unknown;
+}
+
+/**
+ * Express middleware signature.
+ */
+export type ExpressMiddleware = (
+  req: ExpressRequestLike,
+  res: ExpressResponseLike,
+  next: (error?: unknown) => void
+) => Promise<void>;
+
+/**
+ * Writes a Fetch Response to an Express response.
+ * @param res - The Express response
+ * @param response - The response to send
+ */
+async function sendResponse(
+  res: ExpressResponseLike,
+  response: Response
+): Promise<void> {
+  const body = new Uint8Array(await response.arrayBuffer());
+  res.statusCode = response.status;
+  if (response.statusText) res.statusMessage = response.statusText;
+  for (const [name, value] of Object.entries(toNodeHeaders(response))) {
+    res.setHeader(name, value);
+  }
+  res.end(body);
+}
+
+/**
+ * Records everything written to the response so it can be stored once the
+ * response finishes.
+ * @param res - The Express response
+ * @returns Function returning the captured body
+ */
+function captureBody(res: ExpressResponseLike): () => Uint8Array {
+  const chunks: Uint8Array[] = [];
+  const originalWrite = res.write;
+  const originalEnd = res.end;
+
+  res.write = function (this: unknown, chunk: unknown, ...rest: unknown[]) {
+    if (chunk !== undefined && typeof chunk !== "function") {
+      chunks.push(toBytes(chunk));
+    }
+    return originalWrite.call(this, chunk, ...rest);
+  };
+  res.end = function (this: unknown, chunk?: unknown, ...rest: unknown[]) {
+    if (chunk !== undefined && chunk !== null && typeof chunk !== "function") {
+      chunks.push(toBytes(chunk));
+    }
+    return originalEnd.call(this, chunk, ...rest);
+  };
+
+  return () => concatBytes(chunks);
+}
+
+/**
+ * Creates Express middleware that adds idempotency support to the routes it
+ * is mounted on. Register body parsers (`express.json()`,
+ * `express.urlencoded()`) before it so keys in the body and request
+ * fingerprints can be read.
+ *
+ * The status, headers and body written by downstream handlers are captured
+ * and stored, and replayed for duplicates with `Idempotent-Replayed: true`.
+ * If the connection closes before the response finishes, the key is
+ * released so the client can retry. Errors rendered by Express error
+ * handlers are stored or released by the status of the response, like any
+ * other response.
+ *
+ * @param options - Configuration options for idempotency behavior
+ * @returns Express middleware
+ *
+ * @example
+ * ```typescript
+ * import express from 'express';
+ * import { expressIdempotency } from 'use-safe-submit/express';
+ *
+ * const app = express();
+ * app.use(express.json());
+ * app.post('/api/orders', expressIdempotency({ store }), createOrder);
+ * ```
+ */
+export function expressIdempotency(
+  options: IdempotencyOptions = {}
+): ExpressMiddleware {
+  const engine = createIdempotencyEngine(options);
+
+  return async (req, res, next) => {
+    try {
+      const claim = await engine.claim(
+        toFetchRequest({
+          method: req.method,
+          url: req.originalUrl || req.url,
+          headers: req.headers,
+          body: req.body,
+        })
+      );
+
+      if (claim.type === "bypass") {
+        next();
+        return;
+      }
+      if (claim.type === "respond") {
+        await sendResponse(res, claim.response);
+        return;
+      }
+
+      res.setHeader(PROCESSED_HEADER, claim.id);
+      const getBody = captureBody(res);
+      let finished = false;
+
+      res.on("finish", () => {
+        finished = true;
+        claim
+          .complete(
+            createStoredResponse({
+              status: res.statusCode,
+              statusText: res.statusMessage,
+              headers: toHeaderPairs(res.getHeaders()),
+              body: getBody(),
+            })
+          )
+          // Store errors reach onEvent as store-error events
+          .catch(() => {});
+      });
+      res.on("close", () => {
+        if (finished) return;
+        claim.release().catch(() => {});
+      });
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+export type { IdempotencyOptions } from "../server/idempotency-engine";
@@ -0,0 +1,168 @@
+import {
+  createIdempotencyEngine,
+  type ClaimedIdempotencyKey,
+  type IdempotencyOptions,
+} from "../server/idempotency-engine";
+import {
+  PROCESSED_HEADER,
+  createStoredResponse,
+} from "../server/idempotency-record";
+import {
+  toBytes,
+  toFetchRequest,
+  toHeaderPairs,
+  toNodeHeaders,
+} from "./node-http";
+
+/**
+ * Subset of the Fastify request used by the plugin.
+ */
+export interface FastifyRequestLike {
+  method: string;
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+}
+
+/**
+ * Subset of the Fastify reply used by the plugin.
+ */
+export interface FastifyReplyLike {
+  statusCode: number;
+  code(statusCode: number): FastifyReplyLike;
+  header(name: string, value: string | string[]): FastifyReplyLike;
+  getHeaders(): Record<string, string | number | string[] | undefined>;
+  send(payload?: unknown): FastifyReplyLike;
+}
+
+/**
+ * Subset of the Fastify instance used by the plugin.
+ */
+export interface FastifyInstanceLike {
+  addHook(
+    name: "preHandler",
+    hook: (
+      request: FastifyRequestLike,
+      reply: FastifyReplyLike
+    ) => Promise<unknown>
+  ): unknown;
+  addHook(
+    name: "onSend",
+    hook: (
+      request: FastifyRequestLike,
+      reply: FastifyReplyLike,
+      payload: unknown
+    ) => Promise<unknown>
+  ): unknown;
+  addHook(
+    name: "onError",
+    hook: (
+      request: FastifyRequestLike,
+      reply: FastifyReplyLike,
+      error: Error
+    ) => Promise<void>
+  ): unknown;
+}
+
+/**
+ * Fastify plugin signature.
+ */
+export type FastifyIdempotencyPlugin = (
+  fastify: FastifyInstanceLike,
+  options: IdempotencyOptions
+) => Promise<void>;
+
+/**
+ * Fastify plugin that adds idempotency support to every route registered in
+ * the same scope. Register it inside a scoped plugin to limit it to some
+ * routes.
+ *
+ * Keys are claimed in a `preHandler` hook (after body parsing), and the
+ * status, headers and payload of the reply are stored in `onSend` and
+ * replayed for duplicates with `Idempotent-Replayed: true`. Streamed replies
+ * release the key instead of storing it. Error replies follow the
+ * `thrownErrors` setting of the cache policy (released by default).
+ *
+ * @example
+ * ```typescript
+ * import Fastify from 'fastify';
+ * import { fastifyIdempotency } from 'use-safe-submit/fastify';
+ *
+ * const app = Fastify();
+ * await app.register(fastifyIdempotency, { store });
+ * app.post('/api/orders', createOrder);
+ * ```
+ */
+export const fastifyIdempotency: FastifyIdempotencyPlugin = async (
+  fastify,
+  options
+) => {
+  const engine = createIdempotencyEngine(options);
+  const claims = new WeakMap<FastifyRequestLike, ClaimedIdempotencyKey>();
+  const failedRequests = new WeakSet<FastifyRequestLike>();
+
+  fastify.addHook("preHandler", async (request, reply) => {
+    const claim = await engine.claim(
+      toFetchRequest({
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        body: request.body,
+      })
+    );
+
+    if (claim.type === "bypass") return;
+    if (claim.type === "respond") {
+      const response = claim.response;
+      const body = new Uint8Array(await response.arrayBuffer());
+      reply.code(response.status);
+      for (const [name, value] of Object.entries(toNodeHeaders(response))) {
+        reply.header(name, value);
+      }
+      return reply.send(body);
+    }
+
+    claims.set(request, claim);
+    reply.header(PROCESSED_HEADER, claim.id);
+  });
+
+  // The error reply is sent through onSend, which applies the cache policy
+  fastify.addHook("onError", async (request) => {
+    failedRequests.add(request);
+  });
+
+  fastify.addHook("onSend", async (request, reply, payload) => {
+    const claim = claims.get(request);
+    if (!claim) return payload;
+    claims.delete(request);
+
+    const isStorable =
+      payload === null ||
+      payload === undefined ||
+      typeof payload === "string" ||
+      payload instanceof Uint8Array;
+    if (!isStorable) {
+      // Streams can't be captured without buffering them
+      await claim.release();
+      return payload;
+    }
+
+    await claim.complete(
+      createStoredResponse({
+        status: reply.statusCode,
+        headers: toHeaderPairs(reply.getHeaders()),
+        body: payload == null ? new Uint8Array() : toBytes(payload),
+      }),
+      failedRequests.has(request) ? "thrown" : "returned"
+    );
+    return payload;
+  });
+};
+
+// Apply the hooks to the parent scope (what fastify-plugin does)
+Object.assign(fastifyIdempotency, {
+  [Symbol.for("skip-override")]: true,
+  [Symbol.for("fastify.display-name")]: "use-safe-submit",
+});
+
+export type { IdempotencyOptions } from "../server/idempotency-engine";
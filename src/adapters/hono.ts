@@ -0,0 +1,92 @@
+import {
+  createIdempotencyEngine,
+  type IdempotencyOptions,
+} from "../server/idempotency-engine";
+import {
+  PROCESSED_HEADER,
+  deserializeResponse,
+  serializeResponse,
+} from "../server/idempotency-record";
+
+/**
+ * Subset of the Hono context used by the middleware.
+ */
+export interface HonoContextLike {
+  req: { raw: Request };
+  res: Response;
+  error?: Error;
+}
+
+/**
+ * Hono middleware signature.
+ */
+export type HonoMiddleware = (
+  c: HonoContextLike,
+  next: () => Promise<void>
+) => Promise<Response | void>;
+
+/**
+ * Creates Hono middleware that adds idempotency support to the routes it is
+ * mounted on. Hono uses Fetch API requests and responses, so the behavior
+ * matches `withIdempotency` exactly, including replaying stored responses
+ * with `Idempotent-Replayed: true`. Responses rendered by `onError` follow
+ * the `thrownErrors` setting of the cache policy (released by default).
+ *
+ * @param options - Configuration options for idempotency behavior
+ * @returns Hono middleware
+ *
+ * @example
+ * ```typescript
+ * import { Hono } from 'hono';
+ * import { honoIdempotency } from 'use-safe-submit/hono';
+ *
+ * const app = new Hono();
+ * app.use('/api/*', honoIdempotency({ store }));
+ * ```
+ */
+export function honoIdempotency(
+  options: IdempotencyOptions = {}
+): HonoMiddleware {
+  const engine = createIdempotencyEngine(options);
+
+  return async (c, next) => {
+    const claim = await engine.claim(c.req.raw);
+    if (claim.type === "bypass") {
+      await next();
+      return;
+    }
+    if (claim.type === "respond") {
+      return claim.response;
+    }
+
+    try {
+      await next();
+    } catch (error) {
+      const errorResponse = await claim.fail(error);
+      if (errorResponse) return errorResponse;
+      throw error;
+    }
+
+    try {
+      const responseHeaders = new Headers(c.res.headers);
+      responseHeaders.set(PROCESSED_HEADER, claim.id);
+
+      const storedResponse = await serializeResponse(
+        new Response(c.res.body, {
+          status: c.res.status,
+          statusText: c.res.statusText,
+          headers: responseHeaders,
+        })
+      );
+      // Hono catches handler errors and renders them through onError
+      await claim.complete(storedResponse, c.error ? "thrown" : "returned");
+
+      c.res = deserializeResponse(storedResponse);
+    } catch (error) {
+      await claim.release();
+      throw error;
+    }
+  };
+}
+
+export type { IdempotencyOptions } from "../server/idempotency-engine";
@@ -0,0 +1,147 @@
+/**
+ * Request data shared by the Node.js framework adapters.
+ */
+export interface NodeRequestInfo {
+  /** HTTP method */
+  method?: string;
+  /** Request path and query string */
+  url?: string;
+  /** Incoming headers as exposed by Node.js */
+  headers: Record<string, string | string[] | undefined>;
+  /** Body parsed by the framework, if any */
+  body?: unknown;
+}
+
+/**
+ * Headers that describe the original byte stream and must not be copied to
+ * a rebuilt Request.
+ */
+const STREAM_HEADERS = ["content-length", "transfer-encoding", "connection"];
+
+/**
+ * Converts a body parsed by a framework back into a Fetch body.
+ * Objects are re-encoded as URL-encoded form data or JSON, matching the
+ * content type, so key extraction and fingerprinting work unchanged.
+ * @param body - The parsed body
+ * @param headers - Headers of the rebuilt request (content type may change)
+ * @returns The Fetch body, or undefined if there is none
+ */
+function toFetchBody(body: unknown, headers: Headers): BodyInit | undefined {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === "string") return body;
+  if (body instanceof Uint8Array) return new Uint8Array(body);
+
+  if (typeof body === "object") {
+    const contentType = headers.get("content-type") || "";
+    if (contentType.includes("application/x-www-form-urlencoded")) {
+      const params = new URLSearchParams();
+      for (const [name, value] of Object.entries(body)) {
+        const values = Array.isArray(value) ? value : [value];
+        values.forEach((item) => params.append(name, String(item)));
+      }
+      return params.toString();
+    }
+
+    if (!contentType.includes("json")) {
+      headers.set("content-type", "application/json");
+    }
+    return JSON.stringify(body);
+  }
+
+  return String(body);
+}
+
+/**
+ * Rebuilds a Fetch API Request from a Node.js request and its parsed body.
+ * @param info - Method, URL, headers and parsed body of the request
+ * @returns A Request the idempotency engine can inspect
+ */
+export function toFetchRequest(info: NodeRequestInfo): Request {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(info.headers)) {
+    if (value === undefined || STREAM_HEADERS.includes(name.toLowerCase())) {
+      continue;
+    }
+    (Array.isArray(value) ? value : [value]).forEach((item) =>
+      headers.append(name, item)
+    );
+  }
+
+  const method = (info.method || "GET").toUpperCase();
+  const host = headers.get("host") || "localhost";
+  const url = new URL(info.url || "/", `http://${host}`);
+  const body =
+    method === "GET" || method === "HEAD"
+      ? undefined
+      : toFetchBody(info.body, headers);
+
+  return new Request(url, { method, headers, body });
+}
+
+/**
+ * Converts Node.js outgoing headers into name/value pairs.
+ * @param headers - Headers as returned by `getHeaders()`
+ * @returns Header pairs, one per value
+ */
+export function toHeaderPairs(
+  headers: Record<string, string | number | string[] | undefined>
+): Array<[string, string]> {
+  const pairs: Array<[string, string]> = [];
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined) continue;
+    (Array.isArray(value) ? value : [value]).forEach((item) =>
+      pairs.push([name, String(item)])
+    );
+  }
+  return pairs;
+}
+
+/**
+ * Groups the headers of a Fetch Response by name, keeping repeated
+ * headers (such as Set-Cookie) as arrays.
+ * @param response - The response to read headers from
+ * @returns Headers keyed by name
+ */
+export function toNodeHeaders(
+  response: Response
+): Record<string, string | string[]> {
+  const headers: Record<string, string | string[]> = {};
+  response.headers.forEach((value, name) => {
+    const existing = headers[name];
+    if (existing === undefined) {
+      headers[name] = value;
+    } else {
+      headers[name] = Array.isArray(existing)
+        ? [...existing, value]
+        : [existing, value];
+    }
+  });
+  return headers;
+}
+
+/**
+ * Converts a chunk written to a Node.js response into bytes.
+ * @param chunk - String or binary chunk
+ * @returns The chunk's bytes
+ */
+export function toBytes(chunk: unknown): Uint8Array {
+  if (chunk instanceof Uint8Array) return new Uint8Array(chunk);
+  return new TextEncoder().encode(String(chunk));
+}
+
+/**
+ * Concatenates byte chunks.
+ * @param chunks - Chunks in write order
+ * @returns All bytes in one array
+ */
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    chunks.reduce((length, chunk) => length + chunk.length, 0)
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
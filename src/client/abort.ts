@@ -0,0 +1,65 @@
+/**
+ * Error used to abort a submission that exceeded its `timeoutMs`.
+ */
+export class TimeoutError extends Error {
+  /** The timeout that elapsed, in milliseconds */
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Submission timed out after ${timeoutMs}ms`);
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Creates the abort reason used when a submission is cancelled.
+ * @returns An AbortError DOMException
+ */
+export function createCancelReason(): DOMException {
+  return new DOMException("Submission cancelled", "AbortError");
+}
+
+/**
+ * Settles with the given promise, or rejects with the signal's reason as
+ * soon as the signal aborts, whichever happens first.
+ * @param promise - The promise to wait for
+ * @param signal - Signal that interrupts the wait
+ * @returns The promise's result
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal: AbortSignal
+): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Waits for the given number of milliseconds unless the signal aborts first.
+ * @param ms - Delay in milliseconds
+ * @param signal - Signal that interrupts the wait
+ */
+export function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return abortable(
+    new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, ms);
+    }),
+    signal
+  ).finally(() => clearTimeout(timer));
+}
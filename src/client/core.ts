@@ -0,0 +1,36 @@
+/**
+ * @fileoverview Framework-agnostic client exports, without React.
+ *
+ * @example
+ * ```typescript
+ * import { createSafeSubmit } from 'use-safe-submit/core';
+ * ```
+ */
+
+export { createSafeSubmit, createSafeSubmitController } from "./safe-submit";
+export type {
+  CreateSafeSubmitOptions,
+  ResubmitMode,
+  SafeSubmitContext,
+  SafeSubmitController,
+  SafeSubmitFn,
+  SafeSubmitOptions,
+  SafeSubmitState,
+  SafeSubmitStatus,
+} from "./safe-submit";
+export type { RetryOptions } from "./retry";
+export type { PersistKeyOptions } from "./persisted-key";
+export type { CrossTabLockOptions } from "./cross-tab-lock";
+export {
+  OFFLINE_QUEUE_REPLAY_MESSAGE,
+  OFFLINE_QUEUE_SYNC_TAG_PREFIX,
+  replayOfflineQueue,
+  requestOfflineQueueReplay,
+} from "./offline-queue";
+export type {
+  OfflineQueueOptions,
+  OfflineQueueState,
+  OfflineReplayResult,
+  OfflineSubmission,
+} from "./offline-queue";
+export { TimeoutError } from "./abort";
@@ -0,0 +1,212 @@
+import { createCancelReason } from "./abort";
+import { generateIdempotencyKey } from "./idempotency-key";
+
+/**
+ * Options for coordinating submissions of the same form across tabs.
+ */
+export interface CrossTabLockOptions {
+  /**
+   * Identifier of the form. Tabs only block each other for the same
+   * identifier.
+   * @default The form element's `id` or `name` attribute
+   */
+  formId?: string;
+
+  /**
+   * What happens when another tab is already submitting the form.
+   * - `block`: ignore the submit and set `status` to `blocked`
+   * - `queue`: set `status` to `queued` and submit once the other tab is
+   *   done
+   * @default "block"
+   */
+  mode?: "block" | "queue";
+}
+
+/**
+ * Releases a cross-tab lock.
+ */
+export type ReleaseCrossTabLock = () => void;
+
+/**
+ * How long a tab waits for objections after announcing a claim over
+ * BroadcastChannel, in milliseconds.
+ */
+const CLAIM_SETTLE_MS = 50;
+
+/**
+ * How often a queued tab retries a BroadcastChannel claim when no release
+ * message arrives (for example because the holder crashed), in milliseconds.
+ */
+const QUEUE_RETRY_MS = 1000;
+
+/**
+ * Messages exchanged by tabs coordinating over BroadcastChannel.
+ */
+type LockMessage =
+  | { type: "claim"; id: string; at: number }
+  | { type: "held"; id: string }
+  | { type: "released"; id: string };
+
+/**
+ * Tries to take a lock through the Web Locks API.
+ * @param name - Lock name
+ * @param locks - The browser's lock manager
+ * @param wait - Whether to wait for the lock if another tab holds it
+ * @param signal - Aborts waiting
+ * @returns Release function, or null if the lock is held elsewhere
+ */
+function acquireWebLock(
+  name: string,
+  locks: LockManager,
+  wait: boolean,
+  signal: AbortSignal
+): Promise<ReleaseCrossTabLock | null> {
+  return new Promise((resolve, reject) => {
+    let release: ReleaseCrossTabLock = () => {};
+    const held = new Promise<void>((resolveHeld) => {
+      release = resolveHeld;
+    });
+    const callback = async (lock: Lock | null) => {
+      if (!lock) {
+        resolve(null);
+        return;
+      }
+      resolve(release);
+      // The lock is held until the callback's promise settles
+      await held;
+    };
+
+    const request = wait
+      ? locks.request(name, { signal }, callback)
+      : locks.request(name, { ifAvailable: true }, callback);
+    request.catch(reject);
+  });
+}
+
+/**
+ * Tries to take a lock by announcing a claim over BroadcastChannel. Tabs
+ * holding the lock object, and of several simultaneous claims the earliest
+ * one wins. Unlike Web Locks this is best effort: a claim is only seen by
+ * tabs that answer within the settle time.
+ * @param name - Channel name
+ * @returns Release function, or null if another tab holds the lock
+ */
+async function claimOverBroadcastChannel(
+  name: string
+): Promise<ReleaseCrossTabLock | null> {
+  const channel = new BroadcastChannel(name);
+  const claim: LockMessage = {
+    type: "claim",
+    id: generateIdempotencyKey(),
+    at: Date.now(),
+  };
+  let lost = false;
+  let holding = false;
+
+  channel.onmessage = (event: MessageEvent<LockMessage>) => {
+    const message = event.data;
+    if (message.type === "held") {
+      lost = true;
+    } else if (message.type === "claim") {
+      if (holding) {
+        channel.postMessage({ type: "held", id: claim.id });
+      } else if (
+        message.at < claim.at ||
+        (message.at === claim.at && message.id < claim.id)
+      ) {
+        lost = true;
+      }
+    }
+  };
+
+  channel.postMessage(claim);
+  await new Promise((resolve) => setTimeout(resolve, CLAIM_SETTLE_MS));
+  if (lost) {
+    channel.close();
+    return null;
+  }
+
+  holding = true;
+  return () => {
+    channel.postMessage({ type: "released", id: claim.id });
+    channel.close();
+  };
+}
+
+/**
+ * Waits until another tab announces a release over BroadcastChannel, or
+ * until the retry interval elapses.
+ * @param name - Channel name
+ * @param signal - Aborts waiting
+ */
+function waitForBroadcastRelease(
+  name: string,
+  signal: AbortSignal
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const channel = new BroadcastChannel(name);
+    const done = () => {
+      clearTimeout(timer);
+      channel.close();
+      signal.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      done();
+      reject(signal.reason ?? createCancelReason());
+    };
+    const timer = setTimeout(() => {
+      done();
+      resolve();
+    }, QUEUE_RETRY_MS);
+
+    channel.onmessage = (event: MessageEvent<LockMessage>) => {
+      if (event.data.type === "released") {
+        done();
+        resolve();
+      }
+    };
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort);
+  });
+}
+
+/**
+ * Takes a lock shared by all tabs of the same origin, using the Web Locks
+ * API when available and BroadcastChannel otherwise. Without either, the
+ * lock is always granted.
+ * @param name - Lock name
+ * @param options - Whether to wait, a callback for when waiting starts, and
+ * a signal that aborts waiting
+ * @returns Release function, or null if another tab holds the lock and
+ * `wait` is false
+ */
+export async function acquireCrossTabLock(
+  name: string,
+  options: { wait: boolean; signal: AbortSignal; onWaiting?: () => void }
+): Promise<ReleaseCrossTabLock | null> {
+  const locks = typeof navigator !== "undefined" ? navigator.locks : undefined;
+  if (locks) {
+    const release = await acquireWebLock(name, locks, false, options.signal);
+    if (release || !options.wait) return release;
+
+    options.onWaiting?.();
+    return acquireWebLock(name, locks, true, options.signal);
+  }
+
+  if (typeof BroadcastChannel === "undefined") {
+    return () => {};
+  }
+
+  const release = await claimOverBroadcastChannel(name);
+  if (release || !options.wait) return release;
+
+  options.onWaiting?.();
+  for (;;) {
+    await waitForBroadcastRelease(name, options.signal);
+    const queuedRelease = await claimOverBroadcastChannel(name);
+    if (queuedRelease) return queuedRelease;
+  }
+}
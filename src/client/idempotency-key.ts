@@ -0,0 +1,49 @@
+/**
+ * Generates a unique idempotency key using crypto.randomUUID if available,
+ * otherwise falls back to a combination of random string and timestamp.
+ * @returns A unique string identifier
+ */
+export function generateIdempotencyKey(): string {
+  if (typeof crypto !== "undefined" && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return Math.random().toString(36).substring(2) + Date.now().toString(36);
+}
+
+/**
+ * Creates a string describing the fields of a form submission, used to
+ * detect whether the form changed since the last successful submit.
+ * The idempotency key field is ignored.
+ * @param formData - The submitted form data
+ * @returns Signature string
+ */
+export function createFormDataSignature(formData: FormData): string {
+  const entries: Array<[string, string]> = [];
+  formData.forEach((value, name) => {
+    if (name === "idempotency-key") return;
+    entries.push([
+      name,
+      typeof value === "string"
+        ? value
+        : `file:${value.name}:${value.type}:${value.size}:${value.lastModified}`,
+    ]);
+  });
+  return JSON.stringify(entries);
+}
+
+/**
+ * Creates a string describing the arguments of a mutation, used to decide
+ * whether a call may reuse the previous call's idempotency key. FormData
+ * arguments are described by their fields.
+ * @param args - The mutation's arguments
+ * @returns Signature string, or null if the arguments can't be serialized
+ */
+export function createArgsSignature(args: unknown[]): string | null {
+  try {
+    return JSON.stringify(args, (_name, value: unknown) =>
+      value instanceof FormData ? createFormDataSignature(value) : value
+    );
+  } catch {
+    return null;
+  }
+}
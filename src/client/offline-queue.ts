@@ -0,0 +1,367 @@
+/**
+ * Options for queueing submissions made while offline.
+ */
+export interface OfflineQueueOptions {
+  /**
+   * Identifier of the form whose submissions are queued. Queued submissions
+   * are replayed by the hook instance with the same identifier, including
+   * after a reload.
+   */
+  formId: string;
+
+  /**
+   * Decides whether a failed submission is queued.
+   * @param error - The error thrown by the submit function, after retries
+   * @returns True to queue the submission
+   * @default Queues errors from fetch failing to reach the server ("Failed
+   * to fetch" and its equivalents in other browsers) and any error while
+   * `navigator.onLine` is false
+   */
+  shouldQueue?: (error: unknown) => boolean;
+
+  /**
+   * Register a Background Sync tag with the active service worker when a
+   * submission is queued, so it can trigger the replay (see
+   * `requestOfflineQueueReplay`).
+   * @default true
+   */
+  backgroundSync?: boolean;
+}
+
+/**
+ * A submission stored in the offline queue.
+ */
+export interface OfflineSubmission {
+  /** Identifier of the form the submission belongs to */
+  formId: string;
+  /** Idempotency key of the submission, reused when it is replayed */
+  idempotencyKey: string;
+  /** Form fields as name/value pairs; files are stored as Blobs */
+  entries: Array<[string, FormDataEntryValue]>;
+  /** Time the submission was queued, in milliseconds since the epoch */
+  queuedAt: number;
+}
+
+/**
+ * Progress of the offline queue of a form.
+ */
+export interface OfflineQueueState {
+  /** Number of submissions waiting to be replayed */
+  pending: number;
+  /** Whether the queue is being replayed */
+  replaying: boolean;
+  /** Number of submissions replayed successfully since the hook mounted */
+  replayed: number;
+  /** Number of replays rejected with an error other than a network error */
+  failed: number;
+}
+
+/**
+ * Outcome of replaying an offline queue.
+ */
+export interface OfflineReplayResult {
+  /** Submissions that succeeded and were removed from the queue */
+  replayed: number;
+  /** Submissions that failed with a non-network error and were removed */
+  failed: number;
+  /** Submissions still queued because the network is unavailable */
+  remaining: number;
+}
+
+/**
+ * Prefix of the Background Sync tags registered for offline queues,
+ * followed by the form identifier.
+ */
+export const OFFLINE_QUEUE_SYNC_TAG_PREFIX = "use-safe-submit:";
+
+/**
+ * Type of the message a service worker posts to pages to make them replay
+ * their offline queues.
+ */
+export const OFFLINE_QUEUE_REPLAY_MESSAGE = "use-safe-submit:replay";
+
+const DATABASE_NAME = "use-safe-submit";
+const STORE_NAME = "offline-submissions";
+
+/**
+ * Opens the database holding the offline queues.
+ * @returns The database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, {
+        keyPath: "idempotencyKey",
+      });
+      store.createIndex("formId", "formId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs a request in a transaction on the queue store and closes the
+ * database once the transaction completes.
+ * @param mode - Transaction mode
+ * @param run - Creates the request from the object store
+ * @returns The request's result
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Messages of the TypeError fetch rejects with when the request can't reach
+ * the server (Chromium, Firefox, Safari, Node.js, whatwg-fetch).
+ */
+const FETCH_NETWORK_ERROR_PATTERN =
+  /^(Failed to fetch|NetworkError when attempting to fetch resource|Load failed|fetch failed|Network request failed)/;
+
+/**
+ * Checks whether an error is fetch failing to reach the server, as opposed
+ * to another TypeError such as a bug in the submit function.
+ * @param error - The error to check
+ * @returns True for fetch network failures
+ */
+function isFetchNetworkError(error: unknown): boolean {
+  return (
+    error instanceof TypeError &&
+    FETCH_NETWORK_ERROR_PATTERN.test(error.message)
+  );
+}
+
+/**
+ * Default check for errors that queue a submission.
+ * @param error - The error thrown by the submit function
+ * @returns True if the device is offline or fetch could not reach the server
+ */
+export function isOfflineError(error: unknown): boolean {
+  return (
+    isFetchNetworkError(error) ||
+    (typeof navigator !== "undefined" && navigator.onLine === false)
+  );
+}
+
+/**
+ * Checks whether an error comes from an aborted request.
+ * @param error - The error thrown by the submit function
+ * @returns True for `AbortError`s
+ */
+function isAbortError(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { name?: unknown }).name === "AbortError"
+  );
+}
+
+/**
+ * Stores a submission in the offline queue. A submission with the same
+ * idempotency key replaces the queued one.
+ * @param formId - Identifier of the form
+ * @param idempotencyKey - Idempotency key of the submission
+ * @param formData - The submitted form data
+ */
+export async function enqueueOfflineSubmission(
+  formId: string,
+  idempotencyKey: string,
+  formData: FormData
+): Promise<void> {
+  const entries: Array<[string, FormDataEntryValue]> = [];
+  formData.forEach((value, name) => {
+    entries.push([name, value]);
+  });
+  const submission: OfflineSubmission = {
+    formId,
+    idempotencyKey,
+    entries,
+    queuedAt: Date.now(),
+  };
+  await withStore("readwrite", (store) => store.put(submission));
+}
+
+/**
+ * Lists the queued submissions of a form, oldest first.
+ * @param formId - Identifier of the form
+ * @returns The queued submissions
+ */
+export async function getOfflineSubmissions(
+  formId: string
+): Promise<OfflineSubmission[]> {
+  const submissions = await withStore<OfflineSubmission[]>(
+    "readonly",
+    (store) => store.index("formId").getAll(formId)
+  );
+  return submissions.sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+/**
+ * Removes a submission from the offline queue.
+ * @param idempotencyKey - Idempotency key of the submission
+ */
+export async function removeOfflineSubmission(
+  idempotencyKey: string
+): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(idempotencyKey));
+}
+
+/**
+ * Rebuilds the FormData of a queued submission.
+ * @param submission - The queued submission
+ * @returns Form data including the `idempotency-key` field
+ */
+export function toFormData(submission: OfflineSubmission): FormData {
+  const formData = new FormData();
+  submission.entries.forEach(([name, value]) => formData.append(name, value));
+  formData.set("idempotency-key", submission.idempotencyKey);
+  return formData;
+}
+
+/**
+ * Replays the queued submissions of a form in order. Each submission keeps
+ * its idempotency key, so replaying one that already reached the server
+ * returns the stored response instead of processing it twice. Replaying
+ * stops at the first network error or abort, keeping the submission queued;
+ * submissions rejected for other reasons (including bugs in `submit`) are
+ * removed and reported to `onFailed`, so they can't block the queue.
+ *
+ * Works in pages and in service workers.
+ *
+ * @param formId - Identifier of the form
+ * @param submit - Sends one submission; rejects if it failed
+ * @param options - Hooks called after each replayed submission, and a
+ * signal that stops the replay
+ * @returns Counts of replayed, failed and remaining submissions
+ *
+ * @example
+ * ```typescript
+ * // service-worker.js
+ * self.addEventListener('sync', (event) => {
+ *   if (event.tag === `${OFFLINE_QUEUE_SYNC_TAG_PREFIX}checkout`) {
+ *     event.waitUntil(
+ *       replayOfflineQueue('checkout', async (formData, idempotencyKey) => {
+ *         const response = await fetch('/api/checkout', {
+ *           method: 'POST',
+ *           headers: { 'Idempotency-Key': idempotencyKey },
+ *           body: formData,
+ *         });
+ *         if (!response.ok) throw response;
+ *       })
+ *     );
+ *   }
+ * });
+ * ```
+ */
+export async function replayOfflineQueue<TResult>(
+  formId: string,
+  submit: (formData: FormData, idempotencyKey: string) => Promise<TResult>,
+  options: {
+    onReplayed?: (submission: OfflineSubmission, result: TResult) => void;
+    onFailed?: (submission: OfflineSubmission, error: unknown) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<OfflineReplayResult> {
+  const submissions = await getOfflineSubmissions(formId);
+  const result: OfflineReplayResult = {
+    replayed: 0,
+    failed: 0,
+    remaining: submissions.length,
+  };
+
+  for (const submission of submissions) {
+    if (options.signal?.aborted) break;
+
+    let submitResult: TResult;
+    try {
+      submitResult = await submit(
+        toFormData(submission),
+        submission.idempotencyKey
+      );
+    } catch (error) {
+      if (
+        isOfflineError(error) ||
+        isAbortError(error) ||
+        options.signal?.aborted
+      ) {
+        // Not the submission's fault: keep it for the next replay
+        break;
+      }
+
+      await removeOfflineSubmission(submission.idempotencyKey);
+      result.failed++;
+      result.remaining--;
+      options.onFailed?.(submission, error);
+      continue;
+    }
+
+    await removeOfflineSubmission(submission.idempotencyKey);
+    result.replayed++;
+    result.remaining--;
+    options.onReplayed?.(submission, submitResult);
+  }
+
+  return result;
+}
+
+/**
+ * Registers a Background Sync tag for a form's queue with the active
+ * service worker, if Background Sync is supported.
+ * @param formId - Identifier of the form
+ */
+export async function registerOfflineQueueSync(formId: string): Promise<void> {
+  if (typeof navigator === "undefined" || !navigator.serviceWorker) return;
+  try {
+    const registration = (await navigator.serviceWorker.ready) as
+      | (ServiceWorkerRegistration & {
+          sync?: { register(tag: string): Promise<void> };
+        })
+      | undefined;
+    await registration?.sync?.register(OFFLINE_QUEUE_SYNC_TAG_PREFIX + formId);
+  } catch {
+    // Background Sync unavailable or denied: the `online` event still
+    // triggers the replay
+  }
+}
+
+/**
+ * Asks every open page to replay its offline queues. Call it from a service
+ * worker's `sync` event when the pages should replay with their own submit
+ * functions.
+ * @param clients - The service worker's `self.clients`
+ *
+ * @example
+ * ```typescript
+ * // service-worker.js
+ * self.addEventListener('sync', (event) => {
+ *   if (event.tag.startsWith(OFFLINE_QUEUE_SYNC_TAG_PREFIX)) {
+ *     event.waitUntil(requestOfflineQueueReplay(self.clients));
+ *   }
+ * });
+ * ```
+ */
+export async function requestOfflineQueueReplay(clients: {
+  matchAll(options?: {
+    type?: string;
+  }): Promise<ReadonlyArray<{ postMessage(message: unknown): void }>>;
+}): Promise<void> {
+  const windows = await clients.matchAll({ type: "window" });
+  windows.forEach((client) =>
+    client.postMessage({ type: OFFLINE_QUEUE_REPLAY_MESSAGE })
+  );
+}
@@ -0,0 +1,158 @@
+/**
+ * Options for persisting the idempotency key of a pending submission.
+ */
+export interface PersistKeyOptions {
+  /**
+   * Identifier of the form the key belongs to. Use a different one for each
+   * form on the page.
+   * @default The form element's `id` or `name` attribute
+   */
+  formId?: string;
+
+  /**
+   * Where the key is stored. `session` keeps it for reloads of the same
+   * tab; `local` also survives closing the browser.
+   * @default "session"
+   */
+  storage?: "session" | "local";
+
+  /**
+   * Time after which a stored key is discarded, in milliseconds. Match it to
+   * the server's `timeToLiveMs`; a key the server no longer remembers is
+   * processed again anyway.
+   * @default 24 hours (86400000ms)
+   */
+  timeToLiveMs?: number;
+}
+
+/**
+ * Value stored for a pending submission.
+ */
+interface PersistedKeyEntry {
+  /** The idempotency key */
+  key: string;
+  /** Signature of the submitted form data */
+  signature: string;
+  /** Expiry time in milliseconds since the epoch */
+  expiresAt: number;
+}
+
+/**
+ * Prefix of the storage entries written by persistKey.
+ */
+const STORAGE_PREFIX = "use-safe-submit:";
+
+/**
+ * Returns the Web Storage area, or null if it is unavailable (server
+ * rendering, disabled storage or a sandboxed frame).
+ * @param type - Which storage area to use
+ * @returns The storage or null
+ */
+function getStorage(type: PersistKeyOptions["storage"]): Storage | null {
+  try {
+    return type === "local"
+      ? globalThis.localStorage
+      : globalThis.sessionStorage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Persists the idempotency key of a pending submission under a form
+ * identifier, so the key survives a reload or crash and a resubmit of the
+ * same data is deduplicated by the server.
+ */
+export class PersistedKey {
+  private storage: Storage | null;
+  private storageKey: string;
+  private timeToLiveMs: number;
+
+  /**
+   * Creates a handle for the key of one form.
+   * @param formId - Identifier of the form
+   * @param options - Storage area and time to live
+   */
+  constructor(formId: string, options: PersistKeyOptions = {}) {
+    this.storage = getStorage(options.storage);
+    this.storageKey = STORAGE_PREFIX + formId;
+    this.timeToLiveMs = options.timeToLiveMs ?? 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Returns the stored key if it was used for the same form data and has
+   * not expired. Keys stored for other data are not reused: the server
+   * would reject them as a different request.
+   * @param signature - Signature of the form data being submitted
+   * @returns The stored key or null
+   */
+  read(signature: string): string | null {
+    try {
+      const value = this.storage?.getItem(this.storageKey);
+      if (!value) return null;
+
+      const entry = JSON.parse(value) as PersistedKeyEntry;
+      if (Date.now() >= entry.expiresAt) {
+        this.storage?.removeItem(this.storageKey);
+        return null;
+      }
+      return entry.signature === signature ? entry.key : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Stores the key of a submission that is about to be sent, and removes
+   * expired keys of other forms.
+   * @param key - The idempotency key
+   * @param signature - Signature of the submitted form data
+   */
+  write(key: string, signature: string): void {
+    if (!this.storage) return;
+    const entry: PersistedKeyEntry = {
+      key,
+      signature,
+      expiresAt: Date.now() + this.timeToLiveMs,
+    };
+    try {
+      this.storage.setItem(this.storageKey, JSON.stringify(entry));
+      removeExpiredKeys(this.storage);
+    } catch {
+      // Storage full or disabled: the key is still kept in memory
+    }
+  }
+
+  /**
+   * Removes the stored key, once the submission is confirmed.
+   */
+  clear(): void {
+    try {
+      this.storage?.removeItem(this.storageKey);
+    } catch {
+      // Storage disabled
+    }
+  }
+}
+
+/**
+ * Removes the expired entries written by persistKey.
+ * @param storage - The storage area to clean up
+ */
+function removeExpiredKeys(storage: Storage): void {
+  const now = Date.now();
+  const expiredKeys: string[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const storageKey = storage.key(i);
+    if (!storageKey?.startsWith(STORAGE_PREFIX)) continue;
+    try {
+      const entry = JSON.parse(
+        storage.getItem(storageKey) || ""
+      ) as PersistedKeyEntry;
+      if (now >= entry.expiresAt) expiredKeys.push(storageKey);
+    } catch {
+      expiredKeys.push(storageKey);
+    }
+  }
+  expiredKeys.forEach((storageKey) => storage.removeItem(storageKey));
+}
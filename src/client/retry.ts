@@ -0,0 +1,118 @@
+/**
+ * Retry policy for failed submissions.
+ */
+export interface RetryOptions {
+  /**
+   * Maximum number of attempts, including the first one.
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry in milliseconds. Doubles on every retry.
+   * @default 250
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Upper bound for a single delay in milliseconds, including delays
+   * requested through `Retry-After`.
+   * @default 10000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Randomize each backoff delay between zero and its exponential value
+   * ("full jitter") so that many clients don't retry in lockstep.
+   * @default true
+   */
+  jitter?: boolean;
+
+  /**
+   * Retry when fetch fails with a network `TypeError`.
+   * @default true
+   */
+  retryOnNetworkError?: boolean;
+
+  /**
+   * Custom predicate deciding whether an error is retried. Replaces the
+   * built-in status code and network error checks; `maxAttempts` still
+   * applies.
+   * @param error - The error thrown by the submit function
+   * @param attempt - The attempt that failed (1-based)
+   * @returns True to retry
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * Status codes retried when a retry policy is set but
+ * `retryableStatusCodes` is not.
+ */
+export const DEFAULT_RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Parses a `Retry-After` header value.
+ * @param value - Header value (delay in seconds or an HTTP date)
+ * @returns Delay in milliseconds, or null if the value is missing or invalid
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+/**
+ * Checks whether an error is a network failure raised by fetch.
+ * @param error - The error to check
+ * @returns True for network errors
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError;
+}
+
+/**
+ * Decides whether a failed attempt is retried and how long to wait first.
+ * @param error - The error thrown by the submit function
+ * @param attempt - The attempt that failed (1-based)
+ * @param options - Retry policy
+ * @param retryableStatusCodes - Status codes that may be retried
+ * @returns Delay in milliseconds before the next attempt, or null to give up
+ */
+export function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  options: RetryOptions,
+  retryableStatusCodes: number[]
+): number | null {
+  const maxAttempts = options.maxAttempts ?? 3;
+  if (attempt >= maxAttempts) return null;
+
+  const shouldRetry = options.shouldRetry
+    ? options.shouldRetry(error, attempt)
+    : error instanceof Response
+    ? retryableStatusCodes.includes(error.status)
+    : (options.retryOnNetworkError ?? true) && isNetworkError(error);
+  if (!shouldRetry) return null;
+
+  const maxDelayMs = options.maxDelayMs ?? 10 * 1000;
+
+  if (error instanceof Response) {
+    const retryAfter = parseRetryAfter(error.headers.get("Retry-After"));
+    if (retryAfter !== null) return Math.min(retryAfter, maxDelayMs);
+  }
+
+  const baseDelayMs = options.baseDelayMs ?? 250;
+  const backoff = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+  return options.jitter ?? true ? Math.random() * backoff : backoff;
+}
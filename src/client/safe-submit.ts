@@ -0,0 +1,999 @@
+import { createCancelReason } from "./abort";
+import {
+  createFormDataSignature,
+  generateIdempotencyKey,
+} from "./idempotency-key";
+import { PersistedKey, type PersistKeyOptions } from "./persisted-key";
+import {
+  acquireCrossTabLock,
+  type CrossTabLockOptions,
+  type ReleaseCrossTabLock,
+} from "./cross-tab-lock";
+import {
+  enqueueOfflineSubmission,
+  getOfflineSubmissions,
+  isOfflineError,
+  OFFLINE_QUEUE_REPLAY_MESSAGE,
+  registerOfflineQueueSync,
+  replayOfflineQueue,
+  toFormData,
+  type OfflineQueueOptions,
+  type OfflineQueueState,
+} from "./offline-queue";
+import type { RetryOptions } from "./retry";
+import { createScopedFetch, isCancelled, runSubmission } from "./submission";
+
+/**
+ * What happens after a successful submission.
+ * - `lock`: ignore every further submit until `reset()` is called
+ * - `rotate`: allow new submits with a fresh idempotency key, optionally
+ *   after `resubmitCooldownMs`
+ * - `until-change`: allow new submits, but keep the same idempotency key
+ *   until the form's fields change (so the server dedupes identical resubmits)
+ */
+export type ResubmitMode = "lock" | "rotate" | "until-change";
+
+/**
+ * Context passed to the submit function for each submission.
+ */
+export interface SafeSubmitContext {
+  /**
+   * fetch bound to this submission. Adds the `Idempotency-Key` header and
+   * the submission's abort signal (unless the caller passes its own).
+   */
+  fetch: typeof fetch;
+
+  /**
+   * Idempotency key of this submission.
+   */
+  idempotencyKey: string;
+
+  /**
+   * Signal that aborts when the submission is cancelled, times out or the
+   * component unmounts. Shared by all retry attempts.
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * Function that performs the actual form submission.
+ * Its resolved value is exposed as `data` on the submission state.
+ * @param formData - Form data including the `idempotency-key` field
+ * @param context - Key-bound fetch, idempotency key and abort signal
+ */
+export type SafeSubmitFn<TData = void> = (
+  formData: FormData,
+  context: SafeSubmitContext
+) => Promise<TData>;
+
+/**
+ * Lifecycle status of a form submission.
+ * - `idle`: nothing submitted yet (or after `reset()`)
+ * - `submitting`: the first attempt is running
+ * - `retrying`: waiting for or running a retry attempt
+ * - `success`: the last submission succeeded
+ * - `error`: the last submission failed
+ * - `cancelled`: the last submission was cancelled
+ * - `blocked`: the submit was ignored because another tab is submitting the
+ *   same form (`crossTabLock` in `block` mode)
+ * - `queued`: waiting for another tab to finish submitting the same form
+ *   (`crossTabLock` in `queue` mode)
+ * - `offline`: the submission failed because the device is offline and was
+ *   queued for replay (`offlineQueue`)
+ */
+export type SafeSubmitStatus =
+  | "idle"
+  | "queued"
+  | "blocked"
+  | "submitting"
+  | "retrying"
+  | "success"
+  | "error"
+  | "cancelled"
+  | "offline";
+
+/**
+ * Configuration options for useSafeSubmit and createSafeSubmit.
+ */
+export interface SafeSubmitOptions<TData = void> {
+  /**
+   * HTTP status codes that should trigger automatic retry when `submitFn`
+   * throws a Response. Setting this enables retries with the default policy.
+   * @default [408, 429, 500, 502, 503, 504] when `retry` is set
+   * @example [502, 503, 504]
+   */
+  retryableStatusCodes?: number[];
+
+  /**
+   * Retry policy: maximum attempts, exponential backoff with jitter,
+   * `Retry-After` handling, network error retries and a custom predicate.
+   * Every attempt reuses the same idempotency key.
+   * @default undefined (no retries unless `retryableStatusCodes` is set)
+   */
+  retry?: RetryOptions;
+
+  /**
+   * CSS class name to apply to submit buttons when form is submitting.
+   * @default undefined
+   * @example "opacity-50 cursor-not-allowed"
+   */
+  disabledClassName?: string;
+
+  /**
+   * Callback function called when submission fails.
+   * @param error - The error that occurred during submission
+   */
+  onError?: (error: Error | unknown) => void;
+
+  /**
+   * Callback function called when submission succeeds.
+   * @param data - The value returned by the submit function
+   */
+  onSuccess?: (data: TData) => void;
+
+  /**
+   * What happens after a successful submission.
+   * @default "lock"
+   */
+  resubmit?: ResubmitMode;
+
+  /**
+   * Time to wait after a successful submission before the form accepts
+   * another submit, in milliseconds. Only used when `resubmit` is `rotate`.
+   * @default 0
+   */
+  resubmitCooldownMs?: number;
+
+  /**
+   * Replace `globalThis.fetch` with a key-bound wrapper while `submitFn`
+   * runs. Only for legacy code that cannot use `context.fetch`: every fetch
+   * made anywhere during the submission gets the `Idempotency-Key` header.
+   * If several submissions patch at once, fetches use the key of the latest
+   * one still running.
+   * @default false
+   */
+  patchGlobalFetch?: boolean;
+
+  /**
+   * Overall time limit for a submission, including retries, in
+   * milliseconds. When it elapses the submission is aborted and `error` is
+   * set to a `TimeoutError`.
+   * @default undefined (no timeout)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Keep the idempotency key of a pending submission in sessionStorage or
+   * localStorage under a form identifier, so a submit after a reload or
+   * crash reuses it and the server deduplicates the request. The stored key
+   * is only reused for the same form data, and is cleared once the
+   * submission succeeds. Pass `true` to use the form's `id` or `name`
+   * attribute as identifier and the default storage options.
+   * @default false
+   * @example { formId: "checkout", storage: "local" }
+   */
+  persistKey?: boolean | PersistKeyOptions;
+
+  /**
+   * Coordinate submissions of the same form across tabs of the same origin,
+   * using the Web Locks API or, where it is missing, BroadcastChannel. While
+   * one tab submits, a submit in another tab is ignored with status
+   * `blocked`, or waits with status `queued`. Pass `true` to use the form's
+   * `id` or `name` attribute as identifier and block.
+   * @default false
+   * @example { formId: "checkout", mode: "queue" }
+   */
+  crossTabLock?: boolean | CrossTabLockOptions;
+
+  /**
+   * Queue submissions that fail because the device is offline in
+   * IndexedDB, with their idempotency key, and replay them when the
+   * browser comes back online or a service worker asks for it. Replays
+   * reuse the key, so one that already reached the server is deduplicated.
+   * The status is `offline` while the submission waits in the queue.
+   * @default undefined (failed submissions are not queued)
+   * @example { formId: "checkout" }
+   */
+  offlineQueue?: OfflineQueueOptions;
+}
+
+/**
+ * Snapshot of a form's submission state.
+ */
+export interface SafeSubmitState<TData = void> {
+  /**
+   * Lifecycle status of the current (or last) submission.
+   */
+  status: SafeSubmitStatus;
+
+  /**
+   * Boolean indicating if form is currently being submitted.
+   * True while `status` is `submitting` or `retrying`.
+   */
+  isSubmitting: boolean;
+
+  /**
+   * Value returned by the submit function on the last success, or
+   * undefined if no submission has succeeded since the last reset.
+   */
+  data: TData | undefined;
+
+  /**
+   * Timestamp (ms since epoch) at which the most recent submission started,
+   * or null if the form was never submitted. Not cleared by `reset()`.
+   */
+  lastSubmittedAt: number | null;
+
+  /**
+   * Number of submissions started. Ignored duplicate submits are not
+   * counted. Not cleared by `reset()`.
+   */
+  submitCount: number;
+
+  /**
+   * Error from the last submission attempt, or null if no error.
+   */
+  error: Error | unknown | null;
+
+  /**
+   * Idempotency key of the current submission, or an empty string before
+   * the first submit.
+   */
+  idempotencyKey: string;
+
+  /**
+   * Number of the current (or last) attempt, starting at 1.
+   * 0 before the first submission.
+   */
+  attempt: number;
+
+  /**
+   * Timestamp (ms since epoch) of the next scheduled retry, or null when no
+   * retry is pending. Useful for "retrying in 3s…" messages.
+   */
+  nextRetryAt: number | null;
+
+  /**
+   * Progress of the offline queue. Always empty unless `offlineQueue` is
+   * set.
+   */
+  offlineQueue: OfflineQueueState;
+}
+
+/**
+ * Submission logic for one form, independent of any UI framework. Used by
+ * useSafeSubmit and createSafeSubmit; use it directly to build adapters for
+ * other frameworks.
+ */
+export interface SafeSubmitController<TData = void> {
+  /**
+   * Returns the current state. The object is replaced on every change, so
+   * it can be compared by reference.
+   */
+  getState(): SafeSubmitState<TData>;
+
+  /**
+   * Registers a listener called after every state change.
+   * @param listener - Called with no arguments; read `getState()`
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: () => void): () => void;
+
+  /**
+   * Submits a form: locks its submit buttons, adds the `idempotency-key`
+   * field and runs the submit function with retries. Ignored while a
+   * submission is running, and after it failed or (unless `resubmit`
+   * allows it) succeeded, until `reset()` is called. Cancelled and
+   * offline-queued submissions don't lock the form.
+   * @param form - The form to submit
+   */
+  submit(form: HTMLFormElement): Promise<void>;
+
+  /**
+   * Runs a call that isn't a form submission, such as a button's mutation,
+   * with the same state, retries and resubmit mode as `submit`. The key is
+   * reused while `signature` stays the same and replaced when it changes.
+   * Ignored while a call is running, or after a success until `reset()` in
+   * `lock` mode; unlike a form, a failed call can be repeated.
+   * @param signature - Identifies the call's input; null (input that can't
+   * be described) counts as unchanged
+   * @param send - Sends one attempt
+   * @returns The result, or undefined if the call was ignored, cancelled
+   * or failed (see `error` in the state)
+   */
+  run(
+    signature: string | null,
+    send: (context: SafeSubmitContext) => Promise<TData>
+  ): Promise<TData | undefined>;
+
+  /**
+   * Aborts the in-flight submission (including pending retries) and
+   * re-enables the submit buttons. Does nothing when idle.
+   */
+  cancel(): void;
+
+  /**
+   * Resets the state to initial values.
+   * Clears error state, stops submission, and resets internal flags.
+   */
+  reset(): void;
+
+  /**
+   * Replaces the submit function and options, for example on every render.
+   * @param submitFn - The new submit function
+   * @param options - The new options
+   */
+  update(
+    submitFn: SafeSubmitFn<TData>,
+    options: SafeSubmitOptions<TData>
+  ): void;
+
+  /**
+   * Starts replaying the offline queue (when `offlineQueue` is set) and
+   * marks the form as mounted.
+   * @returns Function that aborts the in-flight submission and stops
+   * replaying, for when the form is removed
+   */
+  connect(): () => void;
+}
+
+/**
+ * Options for createSafeSubmit.
+ */
+export interface CreateSafeSubmitOptions<TData = void>
+  extends SafeSubmitOptions<TData> {
+  /**
+   * Called after every state change, for example to render the status.
+   * @param state - The new state
+   */
+  onStateChange?: (state: SafeSubmitState<TData>) => void;
+}
+
+/**
+ * Resolves the identifier of a form for options that key state by form.
+ * @param form - The submitted form
+ * @param formId - Identifier configured in the option, if any
+ * @param optionName - Name of the option, for the warning
+ * @returns The identifier, or null if the form has none
+ */
+function getFormId(
+  form: HTMLFormElement,
+  formId: string | undefined,
+  optionName: string
+): string | null {
+  // getAttribute, because form.id and form.name can be shadowed by fields
+  const resolvedId =
+    formId || form.getAttribute("id") || form.getAttribute("name");
+  if (!resolvedId) {
+    console.warn(
+      `useSafeSubmit: ${optionName} needs a formId or a form with an id or name attribute`
+    );
+  }
+  return resolvedId;
+}
+
+/**
+ * Creates the persisted key handle for a form.
+ * @param form - The submitted form
+ * @param persistKey - The `persistKey` option
+ * @returns The handle, or null if the form has no identifier
+ */
+function createPersistedKey(
+  form: HTMLFormElement,
+  persistKey: true | PersistKeyOptions
+): PersistedKey | null {
+  const persistOptions = persistKey === true ? {} : persistKey;
+  const formId = getFormId(form, persistOptions.formId, "persistKey");
+  return formId ? new PersistedKey(formId, persistOptions) : null;
+}
+
+/**
+ * Creates the submission logic for a form, without attaching it to a form
+ * element. Framework adapters call `submit` from their submit handler,
+ * `connect` when the form mounts, and read the state through `subscribe`
+ * and `getState`.
+ *
+ * @param submitFn - Function that handles the actual form submission
+ * @param options - Configuration options
+ * @returns The controller
+ */
+export function createSafeSubmitController<TData = void>(
+  submitFn: SafeSubmitFn<TData>,
+  options: SafeSubmitOptions<TData> = {}
+): SafeSubmitController<TData> {
+  let currentSubmitFn = submitFn;
+  let currentOptions = options;
+  let idempotencyKey = "";
+  let hasAttemptedSubmission = false;
+  let submittedSignature: string | null = null;
+  let cooldownTimer: ReturnType<typeof setTimeout> | null = null;
+  let abortController: AbortController | null = null;
+  let persistedKey: PersistedKey | null = null;
+  let isMounted = true;
+  let isReplaying = false;
+  const listeners = new Set<() => void>();
+
+  let state: SafeSubmitState<TData> = {
+    status: "idle",
+    isSubmitting: false,
+    data: undefined,
+    lastSubmittedAt: null,
+    submitCount: 0,
+    error: null,
+    idempotencyKey: "",
+    attempt: 0,
+    nextRetryAt: null,
+    offlineQueue: { pending: 0, replaying: false, replayed: 0, failed: 0 },
+  };
+
+  /**
+   * Applies a change to the state and notifies the listeners.
+   * @param update - Changed fields, or a function computing them
+   */
+  const setState = (
+    update:
+      | Partial<SafeSubmitState<TData>>
+      | ((current: SafeSubmitState<TData>) => Partial<SafeSubmitState<TData>>)
+  ) => {
+    const changes = typeof update === "function" ? update(state) : update;
+    const status = changes.status ?? state.status;
+    state = {
+      ...state,
+      ...changes,
+      isSubmitting: status === "submitting" || status === "retrying",
+      idempotencyKey,
+    };
+    listeners.forEach((listener) => listener());
+  };
+
+  /**
+   * Updates the offline queue progress.
+   * @param changes - Changed fields, or a function computing them
+   */
+  const setOfflineQueue = (
+    changes:
+      | Partial<OfflineQueueState>
+      | ((current: OfflineQueueState) => Partial<OfflineQueueState>)
+  ) => {
+    setState((current) => ({
+      offlineQueue: {
+        ...current.offlineQueue,
+        ...(typeof changes === "function"
+          ? changes(current.offlineQueue)
+          : changes),
+      },
+    }));
+  };
+
+  /**
+   * Unlocks the form after a successful submission according to the
+   * resubmit mode.
+   * @param signature - Signature of the submitted input
+   */
+  const unlockAfterSuccess = (signature: string | null) => {
+    const resubmitMode = currentOptions.resubmit || "lock";
+    if (resubmitMode === "rotate") {
+      idempotencyKey = "";
+      const cooldownMs = currentOptions.resubmitCooldownMs || 0;
+      if (cooldownMs > 0) {
+        cooldownTimer = setTimeout(() => {
+          cooldownTimer = null;
+          hasAttemptedSubmission = false;
+        }, cooldownMs);
+      } else {
+        hasAttemptedSubmission = false;
+      }
+    } else if (resubmitMode === "until-change") {
+      submittedSignature = signature;
+      hasAttemptedSubmission = false;
+    }
+  };
+
+  /**
+   * Replays the offline queue of the form, if one is configured.
+   * @param signal - Aborts the replayed submissions on disconnect
+   */
+  const replayOfflineSubmissions = async (signal: AbortSignal) => {
+    const formId = currentOptions.offlineQueue?.formId;
+    if (!formId || isReplaying) return;
+    isReplaying = true;
+    setOfflineQueue({ replaying: true });
+    try {
+      const result = await replayOfflineQueue<TData>(
+        formId,
+        (formData, key) =>
+          currentSubmitFn(formData, {
+            fetch: createScopedFetch(
+              (input, init) => globalThis.fetch(input, init),
+              key,
+              signal
+            ),
+            idempotencyKey: key,
+            signal,
+          }),
+        {
+          onReplayed: (submission, result) => {
+            if (submission.idempotencyKey === idempotencyKey) {
+              // The submission shown by the form went through
+              persistedKey?.clear();
+              hasAttemptedSubmission = true;
+              unlockAfterSuccess(
+                createFormDataSignature(toFormData(submission))
+              );
+              if (!signal.aborted) {
+                setState({ data: result, error: null, status: "success" });
+              }
+            }
+            currentOptions.onSuccess?.(result);
+          },
+          onFailed: (submission, err) => {
+            if (
+              submission.idempotencyKey === idempotencyKey &&
+              !signal.aborted
+            ) {
+              setState({ error: err, status: "error" });
+            }
+            currentOptions.onError?.(err);
+          },
+          signal,
+        }
+      );
+      if (!signal.aborted) {
+        setOfflineQueue((queue) => ({
+          pending: result.remaining,
+          replayed: queue.replayed + result.replayed,
+          failed: queue.failed + result.failed,
+        }));
+      }
+    } catch (err) {
+      console.error("useSafeSubmit: offline queue replay failed", err);
+    } finally {
+      isReplaying = false;
+      if (!signal.aborted) setOfflineQueue({ replaying: false });
+    }
+  };
+
+  /**
+   * Listens for the events that trigger an offline queue replay, and
+   * replays right away when online.
+   * @returns Function that stops listening
+   */
+  const watchOfflineQueue = (): (() => void) => {
+    const formId = currentOptions.offlineQueue?.formId;
+    if (!formId || typeof indexedDB === "undefined") return () => {};
+    const replayController = new AbortController();
+    const replay = () => {
+      replayOfflineSubmissions(replayController.signal);
+    };
+    const onServiceWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === OFFLINE_QUEUE_REPLAY_MESSAGE) replay();
+    };
+
+    getOfflineSubmissions(formId)
+      .then((submissions) => {
+        if (replayController.signal.aborted) return;
+        setOfflineQueue({ pending: submissions.length });
+        if (navigator.onLine) replay();
+      })
+      .catch((err) => {
+        console.error("useSafeSubmit: offline queue unavailable", err);
+      });
+    window.addEventListener("online", replay);
+    navigator.serviceWorker?.addEventListener(
+      "message",
+      onServiceWorkerMessage
+    );
+    return () => {
+      replayController.abort(createCancelReason());
+      window.removeEventListener("online", replay);
+      navigator.serviceWorker?.removeEventListener(
+        "message",
+        onServiceWorkerMessage
+      );
+    };
+  };
+
+  /**
+   * Moves the state to `submitting` for a new submission.
+   */
+  const markSubmitting = () => {
+    setState((current) => ({
+      status: "submitting",
+      error: null,
+      lastSubmittedAt: Date.now(),
+      submitCount: current.submitCount + 1,
+    }));
+  };
+
+  /**
+   * Sends a submission with the current key, retrying failed attempts with
+   * the same key and reporting attempts and retry waits in the state.
+   * @param submissionController - Controller of the submission
+   * @param send - Sends one attempt
+   * @param options - Options captured when the submission started
+   * @returns The result of the successful attempt
+   */
+  const execute = (
+    submissionController: AbortController,
+    send: (context: SafeSubmitContext) => Promise<TData>,
+    options: SafeSubmitOptions<TData>
+  ): Promise<TData> =>
+    runSubmission(send, {
+      idempotencyKey,
+      abortController: submissionController,
+      retry: options.retry,
+      retryableStatusCodes: options.retryableStatusCodes,
+      timeoutMs: options.timeoutMs,
+      patchGlobalFetch: options.patchGlobalFetch,
+      onAttempt: (attempt) => setState({ attempt }),
+      onRetryWait: (retryAt) => {
+        if (retryAt !== null) {
+          setState({ status: "retrying", nextRetryAt: retryAt });
+        } else if (isMounted) {
+          setState({ nextRetryAt: null });
+        }
+      },
+    });
+
+  /**
+   * Applies a successful submission: unlocks according to the resubmit
+   * mode, stores the result and calls `onSuccess`.
+   * @param signature - Signature of the submitted input
+   * @param result - The submission's result
+   * @param options - Options captured when the submission started
+   */
+  const succeed = (
+    signature: string | null,
+    result: TData,
+    options: SafeSubmitOptions<TData>
+  ) => {
+    unlockAfterSuccess(signature);
+    if (isMounted) {
+      setState({ data: result, status: "success" });
+    }
+    options.onSuccess?.(result);
+  };
+
+  /**
+   * Applies a cancelled submission, which can be started again with the
+   * same key.
+   */
+  const cancelled = () => {
+    hasAttemptedSubmission = false;
+    if (isMounted) setState({ status: "cancelled" });
+  };
+
+  /**
+   * Clears the in-flight submission once it settled.
+   * @param submissionController - Controller of the settled submission
+   */
+  const settle = (submissionController: AbortController) => {
+    if (abortController === submissionController) {
+      abortController = null;
+    }
+    if (isMounted) {
+      setState({ nextRetryAt: null });
+    }
+  };
+
+  const submit = async (form: HTMLFormElement) => {
+    if (state.isSubmitting || hasAttemptedSubmission) {
+      return;
+    }
+
+    hasAttemptedSubmission = true;
+    const options = currentOptions;
+    const submissionController = new AbortController();
+    abortController = submissionController;
+
+    let releaseLock: ReleaseCrossTabLock | null = null;
+    const lockOptions =
+      options.crossTabLock === true ? {} : options.crossTabLock;
+    const lockFormId = lockOptions
+      ? getFormId(form, lockOptions.formId, "crossTabLock")
+      : null;
+    if (lockOptions && lockFormId) {
+      try {
+        releaseLock = await acquireCrossTabLock(
+          `use-safe-submit:${lockFormId}`,
+          {
+            wait: lockOptions.mode === "queue",
+            signal: submissionController.signal,
+            onWaiting: () => {
+              if (isMounted) setState({ status: "queued" });
+            },
+          }
+        );
+      } catch {
+        // Only rejects when cancelled while queued
+      }
+      if (!releaseLock || submissionController.signal.aborted) {
+        releaseLock?.();
+        hasAttemptedSubmission = false;
+        if (abortController === submissionController) {
+          abortController = null;
+        }
+        if (isMounted) {
+          setState({
+            status: submissionController.signal.aborted
+              ? "cancelled"
+              : "blocked",
+          });
+        }
+        return;
+      }
+    }
+
+    markSubmitting();
+
+    const formData = new FormData(form);
+    let initialSubmitElement: HTMLButtonElement | HTMLInputElement | null =
+      null;
+    try {
+      initialSubmitElement = form.querySelector(
+        'button[type="submit"], input[type="submit"]'
+      ) as HTMLButtonElement | HTMLInputElement | null;
+      const signature = createFormDataSignature(formData);
+
+      if (submittedSignature !== null && submittedSignature !== signature) {
+        submittedSignature = null;
+        idempotencyKey = "";
+      }
+
+      const formPersistedKey = options.persistKey
+        ? createPersistedKey(form, options.persistKey)
+        : null;
+      persistedKey = formPersistedKey;
+      if (!idempotencyKey) {
+        idempotencyKey =
+          formPersistedKey?.read(signature) || generateIdempotencyKey();
+      }
+      formPersistedKey?.write(idempotencyKey, signature);
+
+      formData.set("idempotency-key", idempotencyKey);
+
+      const submitElements = Array.from(
+        form.querySelectorAll('button[type="submit"], input[type="submit"]')
+      ) as Array<HTMLButtonElement | HTMLInputElement>;
+      submitElements.forEach((element) => {
+        if (!element.disabled) {
+          element.setAttribute("data-safe-submit-lock", "true");
+          element.disabled = true;
+          if (options.disabledClassName) {
+            element.classList.add(options.disabledClassName);
+          }
+        }
+      });
+
+      let result: TData;
+      try {
+        result = await execute(
+          submissionController,
+          (context) => currentSubmitFn(formData, context),
+          options
+        );
+      } finally {
+        submitElements.forEach((element) => {
+          if (element.getAttribute("data-safe-submit-lock") === "true") {
+            element.removeAttribute("data-safe-submit-lock");
+            element.disabled = false;
+            if (options.disabledClassName) {
+              element.classList.remove(options.disabledClassName);
+            }
+          }
+        });
+      }
+
+      formPersistedKey?.clear();
+      succeed(signature, result, options);
+    } catch (err) {
+      if (isCancelled(submissionController.signal)) {
+        // Cancelled (or unmounted): not an error, and the form can be
+        // submitted again with the same key
+        cancelled();
+        return;
+      }
+
+      const offlineOptions = options.offlineQueue;
+      if (
+        offlineOptions &&
+        (offlineOptions.shouldQueue || isOfflineError)(err)
+      ) {
+        try {
+          const formId = offlineOptions.formId;
+          await enqueueOfflineSubmission(formId, idempotencyKey, formData);
+          if (offlineOptions.backgroundSync !== false) {
+            registerOfflineQueueSync(formId);
+          }
+          // Submitting again while queued reuses the key and replaces the
+          // queued copy
+          hasAttemptedSubmission = false;
+          if (isMounted) {
+            setState({ error: err, status: "offline" });
+            const submissions = await getOfflineSubmissions(formId);
+            if (isMounted) setOfflineQueue({ pending: submissions.length });
+          }
+          return;
+        } catch (queueError) {
+          console.error(
+            "useSafeSubmit: could not queue submission",
+            queueError
+          );
+        }
+      }
+
+      if (!isMounted) return;
+      setState({ error: err, status: "error" });
+      options.onError?.(err);
+      const firstErrorElement = form.querySelector('[aria-invalid="true"]');
+      if (firstErrorElement instanceof HTMLElement) {
+        firstErrorElement.focus();
+      } else if (initialSubmitElement instanceof HTMLElement) {
+        initialSubmitElement.focus();
+      } else {
+        const submitElement = form.querySelector(
+          'button[type="submit"], input[type="submit"]'
+        );
+        if (submitElement instanceof HTMLElement) submitElement.focus();
+      }
+    } finally {
+      releaseLock?.();
+      settle(submissionController);
+    }
+  };
+
+  const run = async (
+    signature: string | null,
+    send: (context: SafeSubmitContext) => Promise<TData>
+  ): Promise<TData | undefined> => {
+    if (state.isSubmitting || hasAttemptedSubmission) {
+      return undefined;
+    }
+
+    hasAttemptedSubmission = true;
+    const options = currentOptions;
+    const submissionController = new AbortController();
+    abortController = submissionController;
+
+    // A call with other input gets a new key
+    if (submittedSignature !== signature) {
+      idempotencyKey = "";
+    }
+    submittedSignature = signature;
+    if (!idempotencyKey) {
+      idempotencyKey = generateIdempotencyKey();
+    }
+    markSubmitting();
+
+    try {
+      const result = await execute(submissionController, send, options);
+      succeed(signature, result, options);
+      return result;
+    } catch (err) {
+      if (isCancelled(submissionController.signal)) {
+        cancelled();
+        return undefined;
+      }
+
+      // Unlike a form, a failed call can be repeated (with the same key)
+      hasAttemptedSubmission = false;
+      if (!isMounted) return undefined;
+      setState({ error: err, status: "error" });
+      options.onError?.(err);
+      return undefined;
+    } finally {
+      settle(submissionController);
+    }
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    submit,
+
+    run,
+
+    cancel() {
+      abortController?.abort(createCancelReason());
+    },
+
+    reset() {
+      abortController?.abort(createCancelReason());
+      if (cooldownTimer) {
+        clearTimeout(cooldownTimer);
+        cooldownTimer = null;
+      }
+      hasAttemptedSubmission = false;
+      idempotencyKey = "";
+      submittedSignature = null;
+      persistedKey?.clear();
+      setState({
+        status: "idle",
+        error: null,
+        data: undefined,
+        attempt: 0,
+        nextRetryAt: null,
+      });
+    },
+
+    update(newSubmitFn, newOptions) {
+      currentSubmitFn = newSubmitFn;
+      currentOptions = newOptions;
+    },
+
+    connect() {
+      isMounted = true;
+      const stopWatching = watchOfflineQueue();
+      return () => {
+        isMounted = false;
+        stopWatching();
+        if (cooldownTimer) clearTimeout(cooldownTimer);
+        abortController?.abort(createCancelReason());
+      };
+    },
+  };
+}
+
+/**
+ * Prevents double submissions of a plain DOM form, without React. Handles
+ * the form's `submit` event: locks its submit buttons, adds the
+ * `idempotency-key` field to the FormData, passes a key-bound `fetch` to
+ * the submit function and retries failed attempts with the same key.
+ *
+ * @param form - The form element to handle
+ * @param submitFn - Function that handles the actual form submission
+ * @param options - Configuration options, plus `onStateChange` to follow
+ * the submission state
+ * @returns Function that stops handling the form and aborts the in-flight
+ * submission
+ *
+ * @example
+ * ```typescript
+ * const form = document.querySelector('form')!;
+ * const unsubscribe = createSafeSubmit(
+ *   form,
+ *   async (formData, { fetch }) => {
+ *     const response = await fetch('/api/submit', {
+ *       method: 'POST',
+ *       body: formData,
+ *     });
+ *     if (!response.ok) throw response;
+ *   },
+ *   {
+ *     retry: { maxAttempts: 3 },
+ *     onStateChange: (state) => {
+ *       form.dataset.status = state.status;
+ *     },
+ *   }
+ * );
+ * ```
+ */
+export function createSafeSubmit<TData = void>(
+  form: HTMLFormElement,
+  submitFn: SafeSubmitFn<TData>,
+  options: CreateSafeSubmitOptions<TData> = {}
+): () => void {
+  const controller = createSafeSubmitController(submitFn, options);
+  const unsubscribe = controller.subscribe(() => {
+    options.onStateChange?.(controller.getState());
+  });
+  const onSubmit = (event: SubmitEvent) => {
+    event.preventDefault();
+    controller.submit(form);
+  };
+
+  form.addEventListener("submit", onSubmit);
+  const disconnect = controller.connect();
+  return () => {
+    form.removeEventListener("submit", onSubmit);
+    unsubscribe();
+    disconnect();
+  };
+}
@@ -0,0 +1,215 @@
+import { TimeoutError, abortable, sleep } from "./abort";
+import {
+  DEFAULT_RETRYABLE_STATUS_CODES,
+  getRetryDelay,
+  type RetryOptions,
+} from "./retry";
+import type { SafeSubmitContext } from "./safe-submit";
+
+/**
+ * Options for running one submission, shared by the client APIs.
+ */
+export interface SubmissionOptions {
+  /** Key sent with every attempt */
+  idempotencyKey: string;
+
+  /**
+   * Controller of the submission. Aborting it cancels the submission; it is
+   * aborted with a `TimeoutError` when `timeoutMs` elapses.
+   */
+  abortController: AbortController;
+
+  /** Retry policy; retries are enabled when this or the status codes are set */
+  retry?: RetryOptions;
+
+  /** Status codes retried when `submit` throws a Response */
+  retryableStatusCodes?: number[];
+
+  /** Overall time limit for all attempts, in milliseconds */
+  timeoutMs?: number;
+
+  /** Replace `globalThis.fetch` with the key-bound fetch while submitting */
+  patchGlobalFetch?: boolean;
+
+  /**
+   * Called before each attempt.
+   * @param attempt - The attempt about to run (1-based)
+   */
+  onAttempt?: (attempt: number) => void;
+
+  /**
+   * Called when a retry is scheduled and again once the wait is over.
+   * @param retryAt - Timestamp of the retry, or null when the wait ended
+   */
+  onRetryWait?: (retryAt: number | null) => void;
+}
+
+/**
+ * Creates a fetch function that adds the idempotency key header and abort
+ * signal to every request.
+ * @param baseFetch - The fetch implementation to delegate to
+ * @param idempotencyKey - Key to send in the `Idempotency-Key` header
+ * @param signal - Signal used when the caller does not pass one
+ * @returns Key-bound fetch function
+ */
+export function createScopedFetch(
+  baseFetch: typeof fetch,
+  idempotencyKey: string,
+  signal: AbortSignal
+): typeof fetch {
+  return (input: RequestInfo | URL, init?: RequestInit) => {
+    const headers = new Headers(
+      init?.headers ?? (input instanceof Request ? input.headers : undefined)
+    );
+    headers.set("Idempotency-Key", idempotencyKey);
+    return baseFetch(input, {
+      ...init,
+      headers,
+      signal: init?.signal ?? signal,
+    });
+  };
+}
+
+/** `globalThis.fetch` before the first running submission patched it */
+let originalGlobalFetch: typeof fetch | undefined;
+
+/** Fetch installed as `globalThis.fetch` while submissions patch it */
+let patchedGlobalFetch: typeof fetch | undefined;
+
+/** Key-bound fetches of the running submissions that patch, oldest first */
+const globalFetchPatches: Array<typeof fetch> = [];
+
+/**
+ * Calls the fetch that was installed before any submission patched
+ * `globalThis.fetch`.
+ */
+function callOriginalFetch(input: RequestInfo | URL, init?: RequestInit) {
+  return (originalGlobalFetch || globalThis.fetch).call(
+    globalThis,
+    input,
+    init
+  );
+}
+
+/**
+ * Routes `globalThis.fetch` through a submission's key-bound fetch. While
+ * submissions overlap, calls use the key of the latest one still running;
+ * the original fetch is restored when the last one ends.
+ * @param scopedFetch - The submission's key-bound fetch
+ * @returns Function that removes the submission's patch
+ */
+function patchGlobalFetch(scopedFetch: typeof fetch): () => void {
+  if (globalFetchPatches.length === 0) {
+    originalGlobalFetch = globalThis.fetch;
+    patchedGlobalFetch = (input, init) =>
+      globalFetchPatches[globalFetchPatches.length - 1](input, init);
+    globalThis.fetch = patchedGlobalFetch;
+  }
+  globalFetchPatches.push(scopedFetch);
+
+  return () => {
+    const index = globalFetchPatches.indexOf(scopedFetch);
+    if (index === -1) return;
+    globalFetchPatches.splice(index, 1);
+    if (globalFetchPatches.length > 0) return;
+
+    // Leave fetch alone if something else replaced it in the meantime.
+    if (globalThis.fetch === patchedGlobalFetch && originalGlobalFetch) {
+      globalThis.fetch = originalGlobalFetch;
+    }
+    originalGlobalFetch = undefined;
+    patchedGlobalFetch = undefined;
+  };
+}
+
+/**
+ * Checks whether a submission was cancelled (by the caller or an unmount)
+ * rather than failing or timing out.
+ * @param signal - The submission's signal
+ * @returns True if the submission was cancelled
+ */
+export function isCancelled(signal: AbortSignal): boolean {
+  return signal.aborted && !(signal.reason instanceof TimeoutError);
+}
+
+/**
+ * Runs a submission: calls `submit` with a key-bound context, retries
+ * failed attempts according to the policy with the same key, and enforces
+ * the overall timeout.
+ * @param submit - Sends one attempt
+ * @param options - Key, controller, retry policy and progress callbacks
+ * @returns The value returned by the successful attempt
+ * @throws The last attempt's error, or the abort reason if the submission
+ * was cancelled or timed out
+ */
+export async function runSubmission<TResult>(
+  submit: (context: SafeSubmitContext) => Promise<TResult>,
+  options: SubmissionOptions
+): Promise<TResult> {
+  const { idempotencyKey, abortController } = options;
+  const signal = abortController.signal;
+
+  let timeoutTimer: ReturnType<typeof setTimeout> | undefined;
+  if (options.timeoutMs !== undefined) {
+    const timeoutMs = options.timeoutMs;
+    timeoutTimer = setTimeout(() => {
+      abortController.abort(new TimeoutError(timeoutMs));
+    }, timeoutMs);
+  }
+
+  const attemptSubmission = async () => {
+    const scopedFetch = createScopedFetch(
+      callOriginalFetch,
+      idempotencyKey,
+      signal
+    );
+    const unpatchGlobalFetch = options.patchGlobalFetch
+      ? patchGlobalFetch(scopedFetch)
+      : undefined;
+
+    try {
+      return await abortable(
+        submit({ fetch: scopedFetch, idempotencyKey, signal }),
+        signal
+      );
+    } finally {
+      unpatchGlobalFetch?.();
+    }
+  };
+
+  const retryEnabled = Boolean(options.retry || options.retryableStatusCodes);
+  const retryableStatusCodes =
+    options.retryableStatusCodes || DEFAULT_RETRYABLE_STATUS_CODES;
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      options.onAttempt?.(attempt);
+      try {
+        return await attemptSubmission();
+      } catch (err) {
+        if (signal.aborted) {
+          throw signal.reason;
+        }
+
+        const delay = retryEnabled
+          ? getRetryDelay(
+              err,
+              attempt,
+              options.retry || {},
+              retryableStatusCodes
+            )
+          : null;
+        if (delay === null) throw err;
+
+        options.onRetryWait?.(Date.now() + delay);
+        try {
+          await sleep(delay, signal);
+        } finally {
+          options.onRetryWait?.(null);
+        }
+      }
+    }
+  } finally {
+    clearTimeout(timeoutTimer);
+  }
+}
@@ -0,0 +1,179 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  createFormDataSignature,
+  generateIdempotencyKey,
+} from "./idempotency-key";
+import type { ResubmitMode } from "./safe-submit";
+import { findFormDataIndex } from "../shared/form-data";
+
+/**
+ * Configuration options for the useSafeAction hook.
+ */
+export interface SafeActionOptions {
+  /**
+   * What happens after the action completes.
+   * - `until-change`: accept new submits, reusing the idempotency key until
+   *   the form's fields change (so the server replays identical resubmits,
+   *   while corrected input after a validation error gets a new key)
+   * - `rotate`: accept new submits with a fresh idempotency key
+   * - `lock`: ignore every further submit until `reset()` is called
+   * @default "until-change"
+   */
+  resubmit?: ResubmitMode;
+}
+
+/**
+ * Return value from the useSafeAction hook.
+ */
+export interface SafeActionResult<TArgs extends unknown[], TResult> {
+  /**
+   * The wrapped action. Pass it to `<form action>`, `useActionState` or a
+   * submit button's `formAction`. It adds the `idempotency-key` field to the
+   * form data and ignores duplicate submits: an ignored call resolves to the
+   * previous state when used with `useActionState`, and to undefined
+   * otherwise.
+   */
+  action: (...args: TArgs) => Promise<TResult>;
+
+  /**
+   * Boolean indicating if the action is currently running.
+   */
+  isPending: boolean;
+
+  /**
+   * Idempotency key of the current (or last) submission, or an empty string
+   * before the first submit.
+   */
+  idempotencyKey: string;
+
+  /**
+   * Unlocks the form and discards the idempotency key.
+   */
+  reset: () => void;
+}
+
+/**
+ * React hook for using Server Actions and React 19 form actions safely,
+ * without an onSubmit handler.
+ *
+ * The returned action wraps yours:
+ * - Adds the `idempotency-key` field to the submitted FormData, which
+ *   `withIdempotentAction` reads on the server
+ * - Ignores submits while a previous one is still running
+ * - Keeps, rotates or locks the key after completion (see `resubmit`)
+ *
+ * Use `isPending` (or `useFormStatus` inside the form) to disable submit
+ * buttons. After the action throws, the form can be submitted again with
+ * the same key, so a request that already reached the server is not
+ * processed twice.
+ *
+ * @param action - The Server Action or form action to wrap
+ * @param options - Configuration options for the hook
+ * @returns Object containing the wrapped action and its state
+ *
+ * @example
+ * ```tsx
+ * function SubscribeForm() {
+ *   const { action } = useSafeAction(subscribe);
+ *   const [state, formAction, isPending] = useActionState(action, null);
+ *
+ *   return (
+ *     <form action={formAction}>
+ *       <input name="email" type="email" required />
+ *       <button type="submit" disabled={isPending}>Subscribe</button>
+ *       {state?.error && <div>{state.error}</div>}
+ *     </form>
+ *   );
+ * }
+ * ```
+ */
+export function useSafeAction<TArgs extends unknown[], TResult>(
+  action: (...args: TArgs) => TResult | Promise<TResult>,
+  options: SafeActionOptions = {}
+): SafeActionResult<TArgs, TResult> {
+  const [isPending, setIsPending] = useState(false);
+  const [idempotencyKey, setIdempotencyKey] = useState("");
+  const idempotencyKeyRef = useRef("");
+  const isRunningRef = useRef(false);
+  const isLockedRef = useRef(false);
+  const submittedSignatureRef = useRef<string | null>(null);
+  const isMountedRef = useRef(true);
+  const resubmitMode = options.resubmit || "until-change";
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  /**
+   * Unlocks the form and discards the idempotency key.
+   */
+  const reset = useCallback(() => {
+    isLockedRef.current = false;
+    idempotencyKeyRef.current = "";
+    submittedSignatureRef.current = null;
+    setIdempotencyKey("");
+  }, []);
+
+  const wrappedAction = useCallback(
+    async (...args: TArgs): Promise<TResult> => {
+      if (isRunningRef.current || isLockedRef.current) {
+        return (args.length > 1 ? args[0] : undefined) as TResult;
+      }
+
+      const formDataIndex = findFormDataIndex(args);
+      if (formDataIndex === -1) {
+        return action(...args);
+      }
+
+      const formData = new FormData();
+      (args[formDataIndex] as FormData).forEach((value, name) => {
+        formData.append(name, value);
+      });
+      const signature = createFormDataSignature(formData);
+      if (
+        submittedSignatureRef.current !== null &&
+        submittedSignatureRef.current !== signature
+      ) {
+        idempotencyKeyRef.current = "";
+      }
+      submittedSignatureRef.current = null;
+
+      if (!idempotencyKeyRef.current) {
+        idempotencyKeyRef.current = generateIdempotencyKey();
+      }
+      formData.set("idempotency-key", idempotencyKeyRef.current);
+      const actionArgs = [...args] as TArgs;
+      actionArgs[formDataIndex] = formData;
+
+      isRunningRef.current = true;
+      setIsPending(true);
+      setIdempotencyKey(idempotencyKeyRef.current);
+      try {
+        const result = await action(...actionArgs);
+
+        if (resubmitMode === "lock") {
+          isLockedRef.current = true;
+        } else if (resubmitMode === "rotate") {
+          idempotencyKeyRef.current = "";
+        } else {
+          submittedSignatureRef.current = signature;
+        }
+        return result;
+      } finally {
+        isRunningRef.current = false;
+        if (isMountedRef.current) setIsPending(false);
+      }
+    },
+    [action, resubmitMode]
+  );
+
+  return {
+    action: wrappedAction,
+    isPending,
+    idempotencyKey,
+    reset,
+  };
+}
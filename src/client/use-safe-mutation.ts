@@ -0,0 +1,190 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react";
+import { createArgsSignature } from "./idempotency-key";
+import {
+  createSafeSubmitController,
+  type SafeSubmitContext,
+  type SafeSubmitOptions,
+  type SafeSubmitStatus,
+} from "./safe-submit";
+
+/**
+ * Function that performs a mutation.
+ * Its resolved value is exposed as `data` on the hook result.
+ * @param context - Key-bound fetch, idempotency key and abort signal
+ * @param args - The arguments passed to `mutate`
+ */
+export type SafeMutationFn<TArgs extends unknown[], TResult> = (
+  context: SafeSubmitContext,
+  ...args: TArgs
+) => Promise<TResult>;
+
+/**
+ * Configuration options for the useSafeMutation hook. They behave as the
+ * options of the same name of useSafeSubmit.
+ */
+export type SafeMutationOptions<TResult> = Pick<
+  SafeSubmitOptions<TResult>,
+  | "retryableStatusCodes"
+  | "retry"
+  | "onError"
+  | "onSuccess"
+  | "resubmit"
+  | "timeoutMs"
+>;
+
+/**
+ * Return value from the useSafeMutation hook.
+ */
+export interface SafeMutationResult<TArgs extends unknown[], TResult> {
+  /**
+   * Runs the mutation. Calls made while it is running, or after a success
+   * in `lock` mode, are ignored. Never rejects: resolves to the mutation's
+   * result, or to undefined if the call was ignored, cancelled or failed
+   * (see `error`).
+   */
+  mutate: (...args: TArgs) => Promise<TResult | undefined>;
+
+  /**
+   * Lifecycle status of the current (or last) mutation. Never `queued`,
+   * `blocked` or `offline`.
+   */
+  status: SafeSubmitStatus;
+
+  /**
+   * Boolean indicating if the mutation is running.
+   * True while `status` is `submitting` or `retrying`.
+   */
+  isSubmitting: boolean;
+
+  /**
+   * Value returned by the mutation on the last success, or undefined if no
+   * call has succeeded since the last reset.
+   */
+  data: TResult | undefined;
+
+  /**
+   * Error from the last call, or null if no error.
+   */
+  error: Error | unknown | null;
+
+  /**
+   * Idempotency key of the current (or last) call, or an empty string
+   * before the first call.
+   */
+  idempotencyKey: string;
+
+  /**
+   * Number of the current (or last) attempt, starting at 1.
+   * 0 before the first call.
+   */
+  attempt: number;
+
+  /**
+   * Timestamp (ms since epoch) of the next scheduled retry, or null when no
+   * retry is pending.
+   */
+  nextRetryAt: number | null;
+
+  /**
+   * Cancels the running mutation, clears the state and discards the
+   * idempotency key.
+   */
+  reset: () => void;
+
+  /**
+   * Aborts the running mutation (including pending retries). The key is
+   * kept, so calling again with the same arguments is safe even if the
+   * cancelled request already reached the server.
+   */
+  cancel: () => void;
+}
+
+/**
+ * Submit function of the controller behind useSafeMutation, which runs
+ * mutations with `run` and never submits a form.
+ */
+function submitWithoutForm(): Promise<never> {
+  return Promise.reject(new Error("useSafeMutation doesn't submit forms"));
+}
+
+/**
+ * React hook for running mutations from plain buttons and other code
+ * outside of a `<form>` ("Pay", "Approve", "Delete"), with the same
+ * protection as useSafeSubmit.
+ *
+ * The returned `mutate`:
+ * - Ignores calls while a previous one is running
+ * - Passes a key-bound `fetch` and the idempotency key to the mutation,
+ *   for the `Idempotency-Key` header
+ * - Reuses the key while the arguments stay the same, so a call repeated
+ *   after a failure or cancellation is deduplicated by the server; other
+ *   arguments get a new key (arguments that can't be serialized to JSON
+ *   count as unchanged)
+ * - Retries failed attempts with backoff, reusing the key
+ * - Keeps, rotates or locks the key after a success (see `resubmit`)
+ *
+ * Like useSafeSubmit, it is built on `createSafeSubmitController`, whose
+ * `run` holds the mutation logic.
+ *
+ * @param mutation - Function that performs the mutation
+ * @param options - Configuration options for the hook
+ * @returns Object containing `mutate` and its state
+ *
+ * @example
+ * ```tsx
+ * function PayButton({ invoiceId }: { invoiceId: string }) {
+ *   const { mutate, isSubmitting, error } = useSafeMutation(
+ *     async ({ fetch }, id: string) => {
+ *       const response = await fetch(`/api/invoices/${id}/pay`, {
+ *         method: 'POST',
+ *       });
+ *       if (!response.ok) throw response;
+ *       return response.json();
+ *     }
+ *   );
+ *
+ *   return (
+ *     <button onClick={() => mutate(invoiceId)} disabled={isSubmitting}>
+ *       {isSubmitting ? 'Paying...' : 'Pay'}
+ *     </button>
+ *   );
+ * }
+ * ```
+ */
+export function useSafeMutation<TArgs extends unknown[], TResult>(
+  mutation: SafeMutationFn<TArgs, TResult>,
+  options: SafeMutationOptions<TResult> = {}
+): SafeMutationResult<TArgs, TResult> {
+  const [controller] = useState(() =>
+    createSafeSubmitController<TResult>(submitWithoutForm, options)
+  );
+  controller.update(submitWithoutForm, options);
+  const state = useSyncExternalStore(
+    controller.subscribe,
+    controller.getState,
+    controller.getState
+  );
+
+  useEffect(() => controller.connect(), [controller]);
+
+  const mutate = useCallback(
+    (...args: TArgs): Promise<TResult | undefined> =>
+      controller.run(createArgsSignature(args), (context) =>
+        mutation(context, ...args)
+      ),
+    [controller, mutation]
+  );
+
+  return {
+    mutate,
+    status: state.status,
+    isSubmitting: state.isSubmitting,
+    data: state.data,
+    error: state.error,
+    idempotencyKey: state.idempotencyKey,
+    attempt: state.attempt,
+    nextRetryAt: state.nextRetryAt,
+    reset: controller.reset,
+    cancel: controller.cancel,
+  };
+}
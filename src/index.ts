@@ -18,18 +18,135 @@
 // Client-side exports
 export { useSafeSubmit } from "./client/use-safe-submit";
 export type {
+  ResubmitMode,
+  SafeSubmitContext,
+  SafeSubmitFn,
   SafeSubmitOptions,
   SafeSubmitResult,
+  SafeSubmitStatus,
 } from "./client/use-safe-submit";
+export {
+  createSafeSubmit,
+  createSafeSubmitController,
+} from "./client/safe-submit";
+export type {
+  CreateSafeSubmitOptions,
+  SafeSubmitController,
+  SafeSubmitState,
+} from "./client/safe-submit";
+export { useSafeAction } from "./client/use-safe-action";
+export type {
+  SafeActionOptions,
+  SafeActionResult,
+} from "./client/use-safe-action";
+export { useSafeMutation } from "./client/use-safe-mutation";
+export type {
+  SafeMutationFn,
+  SafeMutationOptions,
+  SafeMutationResult,
+} from "./client/use-safe-mutation";
+export type { RetryOptions } from "./client/retry";
+export type { PersistKeyOptions } from "./client/persisted-key";
+export type { CrossTabLockOptions } from "./client/cross-tab-lock";
+export {
+  OFFLINE_QUEUE_REPLAY_MESSAGE,
+  OFFLINE_QUEUE_SYNC_TAG_PREFIX,
+  replayOfflineQueue,
+  requestOfflineQueueReplay,
+} from "./client/offline-queue";
+export type {
+  OfflineQueueOptions,
+  OfflineQueueState,
+  OfflineReplayResult,
+  OfflineSubmission,
+} from "./client/offline-queue";
+export { TimeoutError } from "./client/abort";
 
 // Server-side exports
 export { withIdempotency } from "./server/with-idempotency";
+export type { IdempotencyResult } from "./server/with-idempotency";
+export {
+  IdempotencyConflictError,
+  withIdempotentAction,
+} from "./server/with-idempotent-action";
+export type { IdempotentActionOptions } from "./server/with-idempotent-action";
+export { createIdempotencyEngine } from "./server/idempotency-engine";
 export type {
+  ClaimedIdempotencyKey,
+  IdempotencyClaim,
+  IdempotencyEngine,
   IdempotencyOptions,
-  IdempotencyResult,
-} from "./server/with-idempotency";
+  InFlightPolicy,
+} from "./server/idempotency-engine";
+export {
+  combineScopes,
+  headerScope,
+  routeScope,
+  userScope,
+} from "./server/scope";
+export type { IdempotencyScope } from "./server/scope";
+export type {
+  CacheDecision,
+  CachePolicy,
+  StatusCachePolicy,
+  StatusClass,
+} from "./server/cache-policy";
+export { createRequestFingerprint } from "./server/fingerprint";
+export type { FingerprintOptions } from "./server/fingerprint";
+export type {
+  IdempotencyEvent,
+  IdempotencyEventBase,
+  IdempotencyEventHandler,
+  IdempotencyEventType,
+  StoreOperation,
+} from "./server/events";
+export {
+  createMetricsEventHandler,
+  createSpanEventHandler,
+  getIdempotencyEventAttributes,
+} from "./server/opentelemetry";
+export type {
+  EventAttributes,
+  MeterLike,
+  MetricsEventHandlerOptions,
+  SpanLike,
+} from "./server/opentelemetry";
 
 // Store implementations
 export { MemoryStore } from "./server/stores/memory-store";
 export { RedisStore } from "./server/stores/redis-store";
-export type { IdempotencyStore } from "./server/stores/memory-store";
+export { SqlStore } from "./server/stores/sql-store";
+export { TieredStore } from "./server/stores/tiered-store";
+export type { TieredStoreOptions } from "./server/stores/tiered-store";
+export type {
+  SqlDialect,
+  SqlQueryFn,
+  SqlStoreOptions,
+} from "./server/stores/sql-store";
+export {
+  createIoRedisAdapter,
+  createNodeRedisAdapter,
+  createUpstashRedisAdapter,
+} from "./server/stores/redis-adapters";
+export type {
+  IoRedisClientLike,
+  NodeRedisClientLike,
+  RedisClientAdapter,
+  RedisSetOptions,
+  UpstashRedisClientLike,
+} from "./server/stores/redis-adapters";
+export type {
+  IdempotencyStore,
+  MemoryStoreOptions,
+  MemoryStoreStats,
+} from "./server/stores/memory-store";
+export {
+  createStoredResponse,
+  deserializeResponse,
+  serializeResponse,
+} from "./server/idempotency-record";
+export type {
+  IdempotencyRecord,
+  IdempotencyRecordState,
+  StoredResponse,
+} from "./server/idempotency-record";
@@ -0,0 +1,173 @@
+/**
+ * Property marking an encoded value that plain JSON can't represent.
+ */
+const TYPE_KEY = "$type";
+
+/**
+ * Encoded form of a value plain JSON can't represent.
+ */
+type TaggedValue =
+  | { $type: "undefined" }
+  | { $type: "number"; value: "NaN" | "Infinity" | "-Infinity" | "-0" }
+  | { $type: "bigint"; value: string }
+  | { $type: "date"; value: string }
+  | { $type: "map"; value: Array<[unknown, unknown]> }
+  | { $type: "set"; value: unknown[] }
+  | { $type: "object"; value: Record<string, unknown> };
+
+/**
+ * Checks whether a value is a plain object (created by a literal or with a
+ * null prototype).
+ * @param value - The value to check
+ * @returns True for plain objects
+ */
+function isPlainObject(value: object): value is Record<string, unknown> {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Converts a value to a JSON-compatible structure, tagging the values JSON
+ * would lose or change.
+ * @param value - The value to encode
+ * @param ancestors - Objects being encoded, to detect circular references
+ * @returns JSON-compatible value
+ * @throws TypeError if the value can't be encoded
+ */
+function encodeValue(value: unknown, ancestors: Set<object>): unknown {
+  switch (typeof value) {
+    case "undefined":
+      return { [TYPE_KEY]: "undefined" };
+    case "bigint":
+      return { [TYPE_KEY]: "bigint", value: value.toString() };
+    case "number":
+      if (Number.isNaN(value) || !Number.isFinite(value)) {
+        return { [TYPE_KEY]: "number", value: String(value) };
+      }
+      return Object.is(value, -0)
+        ? { [TYPE_KEY]: "number", value: "-0" }
+        : value;
+    case "string":
+    case "boolean":
+      return value;
+    case "function":
+    case "symbol":
+      throw new TypeError(`Action results can't contain a ${typeof value}`);
+  }
+
+  if (value === null) return null;
+  const object = value as object;
+  if (ancestors.has(object)) {
+    throw new TypeError("Action results can't contain circular references");
+  }
+
+  ancestors.add(object);
+  try {
+    if (object instanceof Date) {
+      // The timestamp, as a string so invalid dates (NaN) survive JSON
+      return { [TYPE_KEY]: "date", value: String(object.getTime()) };
+    }
+    if (object instanceof Map) {
+      return {
+        [TYPE_KEY]: "map",
+        value: Array.from(object, ([key, entry]) => [
+          encodeValue(key, ancestors),
+          encodeValue(entry, ancestors),
+        ]),
+      };
+    }
+    if (object instanceof Set) {
+      return {
+        [TYPE_KEY]: "set",
+        value: Array.from(object, (entry) => encodeValue(entry, ancestors)),
+      };
+    }
+    if (Array.isArray(object)) {
+      return object.map((entry) => encodeValue(entry, ancestors));
+    }
+    if (!isPlainObject(object)) {
+      throw new TypeError(
+        `Action results can't contain ${
+          object.constructor?.name || "class"
+        } instances`
+      );
+    }
+
+    const encoded: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(object)) {
+      encoded[key] = encodeValue(entry, ancestors);
+    }
+    // Wrap objects that could be mistaken for a tagged value
+    return TYPE_KEY in object
+      ? { [TYPE_KEY]: "object", value: encoded }
+      : encoded;
+  } finally {
+    ancestors.delete(object);
+  }
+}
+
+/**
+ * Restores a value encoded by encodeValue.
+ * @param value - JSON-compatible value
+ * @returns The original value
+ */
+function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (value === null || typeof value !== "object") return value;
+
+  const record = value as Record<string, unknown>;
+  const decodeEntries = (entries: Record<string, unknown>) => {
+    const decoded: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(entries)) {
+      decoded[key] = decodeValue(entry);
+    }
+    return decoded;
+  };
+  if (!(TYPE_KEY in record)) return decodeEntries(record);
+
+  const tagged = record as TaggedValue;
+  switch (tagged.$type) {
+    case "undefined":
+      return undefined;
+    case "number":
+      return tagged.value === "-0" ? -0 : Number(tagged.value);
+    case "bigint":
+      return BigInt(tagged.value);
+    case "date":
+      return new Date(Number(tagged.value));
+    case "map":
+      return new Map(
+        tagged.value.map(([key, entry]) => [
+          decodeValue(key),
+          decodeValue(entry),
+        ])
+      );
+    case "set":
+      return new Set(tagged.value.map(decodeValue));
+    case "object":
+      return decodeEntries(tagged.value);
+  }
+}
+
+/**
+ * Serializes an action result so that replays return the same value as the
+ * first call. Besides JSON values, supports undefined (also as a property
+ * value), BigInt, NaN, Infinity, -0, Date, Map and Set: the values Server
+ * Actions can return.
+ * @param result - The action's result
+ * @returns Serialized result
+ * @throws TypeError if the result contains functions, symbols, class
+ * instances or circular references
+ */
+export function serializeActionResult(result: unknown): string {
+  return JSON.stringify(encodeValue(result, new Set()));
+}
+
+/**
+ * Restores an action result serialized by serializeActionResult.
+ * @param text - Serialized result
+ * @returns The action's result
+ */
+export function deserializeActionResult(text: string): unknown {
+  return decodeValue(JSON.parse(text));
+}
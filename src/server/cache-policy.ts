@@ -0,0 +1,104 @@
+import type { StoredResponse } from "./idempotency-record";
+
+/**
+ * What happens to a key once its request has finished.
+ * - `persist`: store the response and replay it for duplicates
+ * - `release`: delete the key so the client can retry
+ */
+export type CacheDecision = "persist" | "release";
+
+/**
+ * HTTP status class, such as `5xx`.
+ */
+export type StatusClass = "1xx" | "2xx" | "3xx" | "4xx" | "5xx";
+
+/**
+ * Decisions per status class or exact status code. Exact codes take
+ * precedence over classes.
+ */
+export type StatusCachePolicy = Partial<Record<StatusClass, CacheDecision>> & {
+  [status: number]: CacheDecision;
+};
+
+/**
+ * Decides which outcomes of a request are stored and replayed, and which
+ * release the key so the client can retry.
+ */
+export interface CachePolicy {
+  /**
+   * Decisions per status class or status code, merged over the defaults.
+   * Statuses without a decision are persisted.
+   * @default { "5xx": "release", 429: "release" }
+   * @example { "5xx": "persist", 503: "release" }
+   */
+  statuses?: StatusCachePolicy;
+
+  /**
+   * Predicate that decides instead of `statuses`.
+   * @param response - The response the handler produced
+   * @returns True to store the response, false to release the key
+   */
+  shouldPersist?: (response: StoredResponse) => boolean;
+
+  /**
+   * What happens when the handler throws.
+   * - `release`: delete the key and rethrow the error
+   * - `persist`: convert the error with `errorResponse`, store it and send
+   *   it, so duplicates get the same error
+   * @default "release"
+   */
+  thrownErrors?: CacheDecision;
+
+  /**
+   * Converts a thrown error into the response that is stored and sent when
+   * `thrownErrors` is `persist`.
+   * @default A JSON 500 response
+   */
+  errorResponse?: (error: unknown) => Response | Promise<Response>;
+}
+
+/**
+ * Statuses that release the key unless configured otherwise: server errors
+ * and rate limiting, which the client is expected to retry.
+ */
+const DEFAULT_STATUS_POLICY: StatusCachePolicy = {
+  "5xx": "release",
+  429: "release",
+};
+
+/**
+ * Decides whether a response returned by the handler is stored.
+ * @param policy - The configured cache policy
+ * @param response - The response to decide on
+ * @returns The decision for the response
+ */
+export function resolveCacheDecision(
+  policy: CachePolicy,
+  response: StoredResponse
+): CacheDecision {
+  if (policy.shouldPersist) {
+    return policy.shouldPersist(response) ? "persist" : "release";
+  }
+
+  const statuses: StatusCachePolicy = {
+    ...DEFAULT_STATUS_POLICY,
+    ...policy.statuses,
+  };
+  const statusClass = `${Math.floor(response.status / 100)}xx` as StatusClass;
+  return statuses[response.status] || statuses[statusClass] || "persist";
+}
+
+/**
+ * Builds the response stored for a thrown error when no `errorResponse` is
+ * configured.
+ * @returns A JSON 500 response
+ */
+export function createDefaultErrorResponse(): Response {
+  return new Response(
+    JSON.stringify({
+      error: "Internal Server Error",
+      message: "The request failed",
+    }),
+    { status: 500, headers: { "Content-Type": "application/json" } }
+  );
+}
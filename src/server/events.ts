@@ -0,0 +1,163 @@
+import type { IdempotencyStore } from "./stores/memory-store";
+import type { IdempotencyRecordState } from "./idempotency-record";
+
+/**
+ * Fields shared by all idempotency events.
+ */
+export interface IdempotencyEventBase {
+  /** The idempotency key sent by the client */
+  idempotencyKey: string;
+  /** HTTP method of the request */
+  method: string;
+  /** URL path of the request */
+  path: string;
+  /** Time the event occurred, in milliseconds since the epoch */
+  timestamp: number;
+}
+
+/**
+ * Name of an operation of IdempotencyStore.
+ */
+export type StoreOperation = keyof IdempotencyStore;
+
+/**
+ * Structured event describing an idempotency decision or store call.
+ * - `claimed`: the request claimed the key and runs the handler
+ * - `completed`: the handler's response was stored for replay
+ * - `replayed`: a duplicate was answered with the stored response
+ * - `in-flight-conflict`: a duplicate arrived while the original was still
+ *   running and was rejected with 409
+ * - `fingerprint-mismatch`: the key was reused for a different request and
+ *   rejected with 422
+ * - `released`: the key was deleted so the client can retry, because the
+ *   cache policy said so (`cache-policy`), the handler threw (`thrown`) or
+ *   the caller released it (`caller`)
+ * - `store-operation`: a store call succeeded
+ * - `store-error`: a store call failed
+ */
+export type IdempotencyEvent = IdempotencyEventBase &
+  (
+    | { type: "claimed"; requestId: string }
+    | {
+        type: "completed";
+        requestId: string;
+        status: number;
+        state: IdempotencyRecordState;
+      }
+    | { type: "replayed"; requestId: string; status: number }
+    | { type: "in-flight-conflict"; requestId?: string }
+    | { type: "fingerprint-mismatch"; requestId: string }
+    | {
+        type: "released";
+        requestId: string;
+        reason: "cache-policy" | "thrown" | "caller";
+        status?: number;
+      }
+    | { type: "store-operation"; operation: StoreOperation; durationMs: number }
+    | {
+        type: "store-error";
+        operation: StoreOperation;
+        durationMs: number;
+        error: unknown;
+      }
+  );
+
+/**
+ * Type of an idempotency event, such as `replayed`.
+ */
+export type IdempotencyEventType = IdempotencyEvent["type"];
+
+/**
+ * Receives idempotency events. Called synchronously; errors it throws are
+ * logged and otherwise ignored.
+ * @param event - The event
+ */
+export type IdempotencyEventHandler = (event: IdempotencyEvent) => void;
+
+/**
+ * Omits keys from each member of a union separately.
+ */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+/**
+ * An event without the shared fields, which are added by the emitter.
+ */
+export type IdempotencyEventDetails = DistributiveOmit<
+  IdempotencyEvent,
+  keyof IdempotencyEventBase
+>;
+
+/**
+ * Creates a function that adds the request's fields to events and passes
+ * them to the handler, logging errors the handler throws.
+ * @param onEvent - The configured event handler
+ * @param base - Fields of the request, without the timestamp
+ * @returns Function that emits an event
+ */
+export function createEventEmitter(
+  onEvent: IdempotencyEventHandler,
+  base: Omit<IdempotencyEventBase, "timestamp">
+): (event: IdempotencyEventDetails) => void {
+  return (event) => {
+    try {
+      onEvent({ ...base, timestamp: Date.now(), ...event } as IdempotencyEvent);
+    } catch (error) {
+      console.error("Idempotency onEvent error:", error);
+    }
+  };
+}
+
+/**
+ * Wraps a store so every call emits a `store-operation` or `store-error`
+ * event with its duration.
+ * @param store - The store to observe
+ * @param emit - Emits an event for the current request
+ * @returns Store with the same behavior
+ */
+export function observeStore(
+  store: IdempotencyStore,
+  emit: (event: IdempotencyEventDetails) => void
+): IdempotencyStore {
+  const timed = async <TResult>(
+    operation: StoreOperation,
+    call: () => Promise<TResult>
+  ): Promise<TResult> => {
+    const startedAt = Date.now();
+    try {
+      const result = await call();
+      emit({
+        type: "store-operation",
+        operation,
+        durationMs: Date.now() - startedAt,
+      });
+      return result;
+    } catch (error) {
+      emit({
+        type: "store-error",
+        operation,
+        durationMs: Date.now() - startedAt,
+        error,
+      });
+      throw error;
+    }
+  };
+
+  return {
+    get: (key) => timed("get", () => store.get(key)),
+    set: (key, value, timeToLiveMs) =>
+      timed("set", () => store.set(key, value, timeToLiveMs)),
+    setIfAbsent: (key, value, timeToLiveMs) =>
+      timed("setIfAbsent", () => store.setIfAbsent(key, value, timeToLiveMs)),
+    compareAndSet: (key, expectedValue, value, timeToLiveMs) =>
+      timed("compareAndSet", () =>
+        store.compareAndSet(key, expectedValue, value, timeToLiveMs)
+      ),
+    compareAndDelete: (key, expectedValue) =>
+      timed("compareAndDelete", () =>
+        store.compareAndDelete(key, expectedValue)
+      ),
+    delete: (key) => timed("delete", () => store.delete(key)),
+  };
+}
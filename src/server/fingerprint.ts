@@ -0,0 +1,159 @@
+import { createSha256Hash } from "./hash";
+
+/**
+ * Configuration options for request fingerprinting.
+ */
+export interface FingerprintOptions {
+  /**
+   * Body fields left out of the fingerprint, such as timestamps or nonces.
+   * Either a list of field names or a predicate called with each field name.
+   * Applies to form fields and to JSON object keys at any depth.
+   * The `idempotency-key` field is always excluded.
+   * @example ["timestamp", "clientSentAt"]
+   */
+  excludeFields?: string[] | ((fieldName: string) => boolean);
+}
+
+/**
+ * Body field that carries the idempotency key and is never fingerprinted.
+ */
+const IDEMPOTENCY_KEY_FIELD = "idempotency-key";
+
+/**
+ * Builds a predicate that decides whether a body field is left out of the
+ * fingerprint.
+ * @param excludeFields - Configured exclusions
+ * @returns Predicate returning true for excluded field names
+ */
+function createFieldFilter(
+  excludeFields: FingerprintOptions["excludeFields"]
+): (fieldName: string) => boolean {
+  if (typeof excludeFields === "function") {
+    return (fieldName) =>
+      fieldName === IDEMPOTENCY_KEY_FIELD || excludeFields(fieldName);
+  }
+
+  const excluded = new Set([IDEMPOTENCY_KEY_FIELD, ...(excludeFields || [])]);
+  return (fieldName) => excluded.has(fieldName);
+}
+
+/**
+ * Recursively sorts object keys and drops excluded fields so that
+ * semantically equal JSON bodies produce the same string.
+ * @param value - Parsed JSON value
+ * @param isExcluded - Predicate for excluded field names
+ * @returns Canonical form of the value
+ */
+function canonicalizeJson(
+  value: unknown,
+  isExcluded: (fieldName: string) => boolean
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => canonicalizeJson(item, isExcluded));
+  }
+
+  if (value && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      if (isExcluded(key)) continue;
+      result[key] = canonicalizeJson(
+        (value as Record<string, unknown>)[key],
+        isExcluded
+      );
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Converts form data into a canonical string.
+ * Fields are sorted by name (keeping the order of repeated fields) and files
+ * are represented by their name, type and size.
+ * @param formData - Parsed form data
+ * @param isExcluded - Predicate for excluded field names
+ * @returns Canonical form of the form data
+ */
+function canonicalizeFormData(
+  formData: FormData,
+  isExcluded: (fieldName: string) => boolean
+): string {
+  const entries: Array<[string, string]> = [];
+  formData.forEach((value, name) => {
+    if (isExcluded(name)) return;
+    if (typeof value === "string") {
+      entries.push([name, value]);
+    } else {
+      entries.push([name, `file:${value.name}:${value.type}:${value.size}`]);
+    }
+  });
+
+  entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return JSON.stringify(entries);
+}
+
+/**
+ * Reads the request body into a canonical string.
+ * JSON and form bodies are normalized; any other body is used as-is.
+ * @param req - The incoming request (the body is read from a clone)
+ * @param isExcluded - Predicate for excluded field names
+ * @returns Canonical body string
+ */
+async function canonicalizeBody(
+  req: Request,
+  isExcluded: (fieldName: string) => boolean
+): Promise<string> {
+  const contentType = req.headers.get("content-type") || "";
+
+  if (
+    contentType.includes("application/x-www-form-urlencoded") ||
+    contentType.includes("multipart/form-data")
+  ) {
+    try {
+      const formData = await req.clone().formData();
+      return canonicalizeFormData(formData, isExcluded);
+    } catch {
+      // Fall back to the raw body
+    }
+  }
+
+  const text = await req.clone().text();
+
+  if (contentType.includes("json")) {
+    try {
+      return JSON.stringify(canonicalizeJson(JSON.parse(text), isExcluded));
+    } catch {
+      // Fall back to the raw body
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Creates a fingerprint of a request from its method, URL path and
+ * canonicalized body. Two requests with the same fingerprint are treated as
+ * the same operation when they share an idempotency key.
+ *
+ * @param req - The incoming request
+ * @param options - Fingerprint configuration
+ * @returns Hexadecimal fingerprint hash
+ *
+ * @example
+ * ```typescript
+ * const fingerprint = await createRequestFingerprint(req, {
+ *   excludeFields: ["timestamp"],
+ * });
+ * ```
+ */
+export async function createRequestFingerprint(
+  req: Request,
+  options: FingerprintOptions = {}
+): Promise<string> {
+  const isExcluded = createFieldFilter(options.excludeFields);
+  const path = new URL(req.url).pathname;
+  const body = await canonicalizeBody(req, isExcluded);
+
+  return createSha256Hash(`${req.method.toUpperCase()}\n${path}\n${body}`);
+}
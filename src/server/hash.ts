@@ -0,0 +1,19 @@
+/**
+ * Creates a SHA-256 hash of the input string.
+ * Falls back to base64 encoding if crypto.subtle is not available.
+ * @param input - String to hash
+ * @returns Hexadecimal hash string
+ */
+export async function createSha256Hash(input: string): Promise<string> {
+  if (typeof globalThis.crypto !== "undefined" && globalThis.crypto.subtle) {
+    const encoder = new TextEncoder();
+    const data = encoder.encode(input);
+    const hashBuffer = await globalThis.crypto.subtle.digest("SHA-256", data);
+    const hashArray = Array.from(new Uint8Array(hashBuffer));
+    return hashArray.map((byte) => byte.toString(16).padStart(2, "0")).join("");
+  }
+
+  return btoa(input)
+    .replace(/[^a-zA-Z0-9]/g, "")
+    .substring(0, 32);
+}
@@ -0,0 +1,659 @@
+import type { IdempotencyStore } from "./stores/memory-store";
+import { MemoryStore } from "./stores/memory-store";
+import {
+  PROCESSED_HEADER,
+  REPLAYED_HEADER,
+  deserializeResponse,
+  parseIdempotencyRecord,
+  serializeResponse,
+  type IdempotencyRecord,
+  type StoredResponse,
+} from "./idempotency-record";
+import { createSha256Hash } from "./hash";
+import {
+  createRequestFingerprint,
+  type FingerprintOptions,
+} from "./fingerprint";
+import type { IdempotencyScope } from "./scope";
+import {
+  createDefaultErrorResponse,
+  resolveCacheDecision,
+  type CachePolicy,
+} from "./cache-policy";
+import {
+  createEventEmitter,
+  observeStore,
+  type IdempotencyEventHandler,
+} from "./events";
+
+/**
+ * Configuration options for withIdempotency and the framework adapters.
+ */
+export interface IdempotencyOptions {
+  /**
+   * Store implementation for caching idempotency keys.
+   * @default MemoryStore instance holding at most 10000 keys
+   */
+  store?: IdempotencyStore;
+
+  /**
+   * Time to live for idempotency keys in milliseconds.
+   * @default 24 hours (86400000ms)
+   */
+  timeToLiveMs?: number;
+
+  /**
+   * Lease held by a request that is still in progress, in milliseconds.
+   * The lease is renewed by a heartbeat while the handler runs and replaced
+   * by the long-lived record when it finishes. If the process dies mid-request
+   * the lease expires, and a retry can claim the key again.
+   * @default 30 seconds (30000ms)
+   */
+  leaseMs?: number;
+
+  /**
+   * Interval between lease renewals while the handler runs, in milliseconds.
+   * @default leaseMs / 3
+   */
+  heartbeatIntervalMs?: number;
+
+  /**
+   * Custom function to extract idempotency key from request.
+   * @param req - The incoming request
+   * @returns The idempotency key or null if not found
+   */
+  keyExtractor?: (req: Request) => string | null;
+
+  /**
+   * How to handle a duplicate that arrives while the original request is
+   * still in progress.
+   * - `reject`: respond with 409 and a `Retry-After` header
+   * - `wait`: poll the store until the original finishes, then replay its
+   *   response (falls back to `reject` after `waitTimeoutMs`)
+   * @default "reject"
+   */
+  inFlightPolicy?: InFlightPolicy;
+
+  /**
+   * Value of the `Retry-After` header sent with 409 responses, in seconds.
+   * @default 1
+   */
+  retryAfterSeconds?: number;
+
+  /**
+   * Maximum time a duplicate waits for the original request when
+   * `inFlightPolicy` is `wait`, in milliseconds.
+   * @default 10 seconds (10000ms)
+   */
+  waitTimeoutMs?: number;
+
+  /**
+   * Interval between store reads while waiting for the original request,
+   * in milliseconds.
+   * @default 100
+   */
+  pollIntervalMs?: number;
+
+  /**
+   * Request fingerprinting. The method, URL path and canonicalized body of
+   * the request are hashed and stored with the key; reusing the key for a
+   * different request is rejected with 422. Pass options to exclude volatile
+   * body fields, or false to disable.
+   * @default true
+   */
+  fingerprint?: boolean | FingerprintOptions;
+
+  /**
+   * Namespace for idempotency keys, such as the authenticated user, tenant
+   * or route. The same key sent in two scopes is stored (and replayed)
+   * separately. Use the `userScope`, `routeScope`, `headerScope` and
+   * `combineScopes` presets or a custom function.
+   * @default undefined (keys are shared by all requests)
+   * @example userScope((req) => getUserId(req))
+   */
+  scope?: IdempotencyScope;
+
+  /**
+   * Which outcomes are stored and replayed, and which release the key so the
+   * client can retry. By default 5xx and 429 responses and thrown errors
+   * release the key; everything else is stored.
+   * @default { statuses: { "5xx": "release", 429: "release" }, thrownErrors: "release" }
+   */
+  cachePolicy?: CachePolicy;
+
+  /**
+   * Receives structured events for idempotency decisions (claimed,
+   * completed, replayed, in-flight conflict, fingerprint mismatch, released)
+   * and store calls with their duration. Use it for logs and metrics, or
+   * pass the OpenTelemetry helpers `createSpanEventHandler` and
+   * `createMetricsEventHandler`.
+   * @param event - The event
+   * @default undefined (no events)
+   */
+  onEvent?: IdempotencyEventHandler;
+}
+
+/**
+ * Policy for duplicates of a request that is still in progress.
+ */
+export type InFlightPolicy = "reject" | "wait";
+
+/**
+ * Outcome of claiming the idempotency key of a request.
+ * - `bypass`: the request has no key (or a safe method); run the handler
+ *   without idempotency
+ * - `respond`: send the given response without running the handler (a
+ *   replay, a 409 conflict or a 422 fingerprint mismatch)
+ * - `claimed`: this request owns the key; run the handler, then call
+ *   `complete` with its response, or `release` if it failed
+ */
+export type IdempotencyClaim =
+  | { type: "bypass" }
+  | { type: "respond"; response: Response }
+  | ClaimedIdempotencyKey;
+
+/**
+ * A key claimed by the current request.
+ */
+export interface ClaimedIdempotencyKey {
+  type: "claimed";
+  /**
+   * Identifier of this request, sent in the `X-Idempotency-Key-Processed`
+   * response header.
+   */
+  id: string;
+  /**
+   * Stores the handler's response so duplicates can replay it, or releases
+   * the key if the cache policy says so. If storing fails, the key is
+   * released before the error is rethrown.
+   * @param response - The serialized response that was sent to the client
+   * @param outcome - Whether the handler returned the response or threw
+   * and the response was rendered from the error
+   */
+  complete(
+    response: StoredResponse,
+    outcome?: "returned" | "thrown"
+  ): Promise<void>;
+  /**
+   * Handles an error thrown by the handler according to the cache policy.
+   * If the error response can't be rendered or stored, the key is released.
+   * @param error - The thrown error
+   * @returns The stored error response to send, or null if the key was
+   * released and the error should be rethrown
+   */
+  fail(error: unknown): Promise<Response | null>;
+  /**
+   * Releases the key so the request can be retried. Does nothing once the
+   * claim was completed or released.
+   */
+  release(): Promise<void>;
+}
+
+/**
+ * Framework-independent idempotency logic shared by withIdempotency and the
+ * Express, Fastify and Hono adapters.
+ */
+export interface IdempotencyEngine {
+  /**
+   * Extracts the key from a request and tries to claim it.
+   * @param req - The incoming request
+   * @returns What the caller should do with the request
+   */
+  claim(req: Request): Promise<IdempotencyClaim>;
+}
+
+/**
+ * How many times a request tries to claim a key that disappears between a
+ * failed claim and the read of its current value.
+ */
+const MAX_CLAIM_ATTEMPTS = 3;
+
+/**
+ * Waits for the given number of milliseconds.
+ * @param ms - Delay in milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Renews a lease at a fixed interval until stopped, until a renewal reports
+ * that the lease was lost, or until `maxDurationMs` elapses.
+ * @param renew - Renews the lease; resolves to false if it was lost
+ * @param intervalMs - Delay between renewals in milliseconds
+ * @param maxDurationMs - Time after which renewals stop in milliseconds
+ * @returns Function that stops the heartbeat
+ */
+function startHeartbeat(
+  renew: () => Promise<boolean>,
+  intervalMs: number,
+  maxDurationMs: number
+): () => void {
+  const startedAt = Date.now();
+  const timer = setInterval(() => {
+    if (Date.now() - startedAt >= maxDurationMs) {
+      clearInterval(timer);
+      return;
+    }
+    renew().then(
+      (held) => {
+        if (!held) clearInterval(timer);
+      },
+      () => {
+        // Transient store error: try again on the next beat
+      }
+    );
+  }, intervalMs);
+  // Don't keep a Node.js process alive just to renew a lease
+  (timer as unknown as { unref?: () => void }).unref?.();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Polls the store until the record under the key leaves the in-progress
+ * state, disappears, or the timeout elapses.
+ * @param store - Store holding the record
+ * @param storageKey - Key to poll
+ * @param timeoutMs - Maximum time to wait in milliseconds
+ * @param pollIntervalMs - Delay between reads in milliseconds
+ * @returns The settled record, the still in-progress record on timeout, or
+ * null if the key was released
+ */
+async function waitForSettledRecord(
+  store: IdempotencyStore,
+  storageKey: string,
+  timeoutMs: number,
+  pollIntervalMs: number
+): Promise<IdempotencyRecord | null> {
+  const deadline = Date.now() + timeoutMs;
+  let record: IdempotencyRecord | null = null;
+
+  while (Date.now() < deadline) {
+    await sleep(Math.min(pollIntervalMs, Math.max(0, deadline - Date.now())));
+    const value = await store.get(storageKey);
+    if (!value) return null;
+
+    record = parseIdempotencyRecord(value);
+    if (record.state !== "in-progress") return record;
+  }
+
+  return record;
+}
+
+/**
+ * Builds the 409 response for a duplicate of an in-progress request.
+ * @param record - The record holding the key, if known
+ * @param retryAfterSeconds - Value of the Retry-After header
+ * @returns The conflict response
+ */
+function createInFlightConflictResponse(
+  record: IdempotencyRecord | null,
+  retryAfterSeconds: number
+): Response {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "Retry-After": String(retryAfterSeconds),
+  };
+  if (record) {
+    headers["X-Idempotency-Key-Used"] = record.id;
+  }
+
+  return new Response(
+    JSON.stringify({
+      error: "Idempotency key already used",
+      message: "This request is already being processed",
+    }),
+    { status: 409, headers }
+  );
+}
+
+/**
+ * Builds the 422 response for a key reused with a different request.
+ * @param record - The record holding the key
+ * @returns The mismatch response
+ */
+function createFingerprintMismatchResponse(
+  record: IdempotencyRecord
+): Response {
+  return new Response(
+    JSON.stringify({
+      error: "Idempotency key reused",
+      message:
+        "This idempotency key was already used for a request with a different method, path or body",
+    }),
+    {
+      status: 422,
+      headers: {
+        "Content-Type": "application/json",
+        "X-Idempotency-Key-Used": record.id,
+      },
+    }
+  );
+}
+
+/**
+ * Extracts idempotency key from request headers.
+ * Checks for both "Idempotency-Key" and "x-idempotency-key" headers.
+ * @param req - The incoming request
+ * @returns The idempotency key or null if not found
+ */
+function extractIdempotencyKeyFromHeaders(req: Request): string | null {
+  const contentType = req.headers.get("content-type");
+  if (
+    contentType?.includes("application/x-www-form-urlencoded") ||
+    contentType?.includes("multipart/form-data")
+  ) {
+    return null;
+  }
+
+  const headerKey =
+    req.headers.get("Idempotency-Key") || req.headers.get("x-idempotency-key");
+  if (headerKey) return headerKey;
+
+  return null;
+}
+
+/**
+ * Extracts the idempotency key from a request using the custom extractor or
+ * the headers, falling back to the `idempotency-key` field of a form or JSON
+ * body.
+ * @param req - The incoming request
+ * @param keyExtractor - Custom key extractor, if configured
+ * @returns The idempotency key or null if not found
+ */
+async function extractIdempotencyKey(
+  req: Request,
+  keyExtractor: IdempotencyOptions["keyExtractor"]
+): Promise<string | null> {
+  const idempotencyKey = (keyExtractor || extractIdempotencyKeyFromHeaders)(
+    req
+  );
+  if (idempotencyKey) return idempotencyKey;
+
+  try {
+    const formClone = req.clone();
+    const formData = await formClone.formData();
+    return (formData.get("idempotency-key") as string) || null;
+  } catch {
+    try {
+      const jsonClone = req.clone();
+      const body = await jsonClone.json();
+      return body["idempotency-key"] || null;
+    } catch {
+      // Continue without idempotency
+      return null;
+    }
+  }
+}
+
+/**
+ * Creates the idempotency engine used by withIdempotency and the framework
+ * adapters. Use it directly to add idempotency to other frameworks.
+ *
+ * @param options - Configuration options for idempotency behavior
+ * @returns The idempotency engine
+ *
+ * @example
+ * ```typescript
+ * const engine = createIdempotencyEngine({ store });
+ * const claim = await engine.claim(request);
+ * if (claim.type === "claimed") {
+ *   // run the handler, then claim.complete(...) or claim.release()
+ * }
+ * ```
+ */
+export function createIdempotencyEngine(
+  options: IdempotencyOptions = {}
+): IdempotencyEngine {
+  const baseStore = options.store || new MemoryStore({ maxEntries: 10000 });
+  const timeToLiveMs = options.timeToLiveMs || 24 * 60 * 60 * 1000;
+  const leaseMs = Math.min(options.leaseMs ?? 30 * 1000, timeToLiveMs);
+  const heartbeatIntervalMs =
+    options.heartbeatIntervalMs ?? Math.max(1, Math.floor(leaseMs / 3));
+  const inFlightPolicy = options.inFlightPolicy || "reject";
+  const retryAfterSeconds = options.retryAfterSeconds ?? 1;
+  const waitTimeoutMs = options.waitTimeoutMs ?? 10 * 1000;
+  const pollIntervalMs = options.pollIntervalMs ?? 100;
+  const cachePolicy = options.cachePolicy || {};
+  const fingerprintOptions =
+    options.fingerprint === false
+      ? null
+      : options.fingerprint === true || options.fingerprint === undefined
+      ? {}
+      : options.fingerprint;
+
+  return {
+    async claim(req) {
+      const method = req.method.toUpperCase();
+      if (["GET", "HEAD", "OPTIONS"].includes(method)) {
+        return { type: "bypass" };
+      }
+
+      const idempotencyKey = await extractIdempotencyKey(
+        req,
+        options.keyExtractor
+      );
+      if (!idempotencyKey) {
+        return { type: "bypass" };
+      }
+
+      const emit = options.onEvent
+        ? createEventEmitter(options.onEvent, {
+            idempotencyKey,
+            method,
+            path: new URL(req.url).pathname,
+          })
+        : () => {};
+      const store = options.onEvent ? observeStore(baseStore, emit) : baseStore;
+
+      const hashedKey = await createSha256Hash(idempotencyKey);
+      const scope = options.scope ? await options.scope(req) : null;
+      // The scope is hashed so user or tenant IDs don't appear in the store
+      const storageKey = scope
+        ? `${await createSha256Hash(scope)}:${hashedKey}:${idempotencyKey}`
+        : `${hashedKey}:${idempotencyKey}`;
+
+      const uniqueValue = `${Date.now()}-${Math.random()
+        .toString(36)
+        .substring(2)}`;
+      const record: IdempotencyRecord = {
+        id: uniqueValue,
+        state: "in-progress",
+      };
+      if (fingerprintOptions) {
+        record.fingerprint = await createRequestFingerprint(
+          req,
+          fingerprintOptions
+        );
+      }
+
+      // The in-progress value doubles as the owner token of the lease
+      const leaseValue = JSON.stringify(record);
+      let claimed = false;
+      let inFlightRecord: IdempotencyRecord | null = null;
+      // The key can be released between a failed claim and the follow-up
+      // read (or while waiting); in that case the claim is attempted again.
+      for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+        claimed = await store.setIfAbsent(storageKey, leaseValue, leaseMs);
+        if (claimed) break;
+
+        const existingValue = await store.get(storageKey);
+        if (!existingValue) continue;
+
+        let existingRecord: IdempotencyRecord | null =
+          parseIdempotencyRecord(existingValue);
+        if (
+          record.fingerprint &&
+          existingRecord.fingerprint &&
+          record.fingerprint !== existingRecord.fingerprint
+        ) {
+          emit({
+            type: "fingerprint-mismatch",
+            requestId: existingRecord.id,
+          });
+          return {
+            type: "respond",
+            response: createFingerprintMismatchResponse(existingRecord),
+          };
+        }
+
+        if (
+          existingRecord.state === "in-progress" &&
+          inFlightPolicy === "wait"
+        ) {
+          existingRecord = await waitForSettledRecord(
+            store,
+            storageKey,
+            waitTimeoutMs,
+            pollIntervalMs
+          );
+          if (!existingRecord) continue;
+        }
+
+        if (existingRecord.response) {
+          emit({
+            type: "replayed",
+            requestId: existingRecord.id,
+            status: existingRecord.response.status,
+          });
+          return {
+            type: "respond",
+            response: deserializeResponse(existingRecord.response, {
+              [REPLAYED_HEADER]: "true",
+            }),
+          };
+        }
+
+        inFlightRecord = existingRecord;
+        break;
+      }
+
+      if (!claimed) {
+        emit({ type: "in-flight-conflict", requestId: inFlightRecord?.id });
+        return {
+          type: "respond",
+          response: createInFlightConflictResponse(
+            inFlightRecord,
+            retryAfterSeconds
+          ),
+        };
+      }
+
+      emit({ type: "claimed", requestId: uniqueValue });
+
+      const stopHeartbeat = startHeartbeat(
+        () => store.compareAndSet(storageKey, leaseValue, leaseValue, leaseMs),
+        heartbeatIntervalMs,
+        timeToLiveMs
+      );
+
+      // Set once the claim was completed or released; later release() calls
+      // (for example from a caller's cleanup after complete() threw) are
+      // no-ops.
+      let settled = false;
+
+      // Only the lease owner may replace or delete the entry. If the lease
+      // expired and another request reclaimed the key, these are no-ops.
+      const releaseLease = async (
+        reason: "cache-policy" | "thrown" | "caller",
+        status?: number
+      ) => {
+        settled = true;
+        stopHeartbeat();
+        let released: boolean;
+        try {
+          released = await store.compareAndDelete(storageKey, leaseValue);
+        } catch {
+          // Reported as a store-error event; the lease expires after leaseMs
+          return;
+        }
+        if (!released) return;
+        emit({ type: "released", requestId: uniqueValue, reason, status });
+      };
+      const claimedKey: ClaimedIdempotencyKey = {
+        type: "claimed",
+        id: uniqueValue,
+        async complete(response, outcome = "returned") {
+          settled = true;
+          stopHeartbeat();
+          const decision =
+            outcome === "thrown"
+              ? cachePolicy.thrownErrors || "release"
+              : resolveCacheDecision(cachePolicy, response);
+          if (decision === "release") {
+            await releaseLease(
+              outcome === "thrown" ? "thrown" : "cache-policy",
+              response.status
+            );
+            return;
+          }
+
+          const completedRecord: IdempotencyRecord = {
+            ...record,
+            state: response.status >= 500 ? "failed" : "completed",
+            response,
+          };
+          let stored: boolean;
+          try {
+            stored = await store.compareAndSet(
+              storageKey,
+              leaseValue,
+              JSON.stringify(completedRecord),
+              timeToLiveMs
+            );
+          } catch (error) {
+            // Don't leave the key locked until the lease expires.
+            await releaseLease("thrown", response.status);
+            throw error;
+          }
+          if (!stored) return;
+          emit({
+            type: "completed",
+            requestId: uniqueValue,
+            status: response.status,
+            state: completedRecord.state,
+          });
+        },
+        async release() {
+          if (settled) return;
+          await releaseLease("caller");
+        },
+        async fail(error) {
+          if (cachePolicy.thrownErrors !== "persist") {
+            await releaseLease("thrown");
+            return null;
+          }
+
+          // If the error response can't be rendered or stored, release the
+          // key and let the caller rethrow the original error.
+          let storedResponse: StoredResponse;
+          try {
+            const response = cachePolicy.errorResponse
+              ? await cachePolicy.errorResponse(error)
+              : createDefaultErrorResponse();
+            const responseHeaders = new Headers(response.headers);
+            responseHeaders.set(PROCESSED_HEADER, uniqueValue);
+            storedResponse = await serializeResponse(
+              new Response(response.body, {
+                status: response.status,
+                statusText: response.statusText,
+                headers: responseHeaders,
+              })
+            );
+          } catch {
+            await releaseLease("thrown");
+            return null;
+          }
+          try {
+            await claimedKey.complete(storedResponse, "thrown");
+          } catch {
+            return null;
+          }
+          return deserializeResponse(storedResponse);
+        },
+      };
+      return claimedKey;
+    },
+  };
+}
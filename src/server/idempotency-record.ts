@@ -0,0 +1,166 @@
+/**
+ * Serialized form of a Response that can be persisted in an IdempotencyStore
+ * and replayed verbatim for duplicate requests.
+ */
+export interface StoredResponse {
+  /** HTTP status code of the original response */
+  status: number;
+  /** HTTP status text of the original response */
+  statusText: string;
+  /** Response headers as name/value pairs */
+  headers: Array<[string, string]>;
+  /** Response body, base64-encoded so binary payloads survive storage */
+  body: string;
+}
+
+/**
+ * Lifecycle state of an idempotency key.
+ * - `in-progress`: the original request is still being handled
+ * - `completed`: the handler finished with a non-5xx response
+ * - `failed`: the handler finished with a 5xx response
+ */
+export type IdempotencyRecordState = "in-progress" | "completed" | "failed";
+
+/**
+ * Value stored under an idempotency key.
+ * Serialized to JSON before it is handed to the store.
+ */
+export interface IdempotencyRecord {
+  /** Unique identifier of the request that claimed the key */
+  id: string;
+  /** Lifecycle state of the key */
+  state: IdempotencyRecordState;
+  /** Fingerprint of the request that claimed the key, if fingerprinting is on */
+  fingerprint?: string;
+  /** The final response, present once the handler has finished */
+  response?: StoredResponse;
+}
+
+/**
+ * Name of the header added to replayed responses.
+ */
+export const REPLAYED_HEADER = "Idempotent-Replayed";
+
+/**
+ * Name of the header carrying the id of the request that processed a key.
+ */
+export const PROCESSED_HEADER = "X-Idempotency-Key-Processed";
+
+/**
+ * Encodes bytes as a base64 string without relying on Node.js Buffer.
+ * @param bytes - Bytes to encode
+ * @returns Base64 string
+ */
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decodes a base64 string into bytes without relying on Node.js Buffer.
+ * @param value - Base64 string to decode
+ * @returns Buffer holding the decoded bytes
+ */
+function decodeBase64(value: string): ArrayBuffer {
+  const binary = atob(value);
+  const buffer = new ArrayBuffer(binary.length);
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return buffer;
+}
+
+/**
+ * Builds a storable response from its parts. Used by adapters that capture
+ * responses written to non-Fetch response objects.
+ * @param init - Status, headers and raw body of the response
+ * @returns The serialized response
+ */
+export function createStoredResponse(init: {
+  status: number;
+  statusText?: string;
+  headers: Array<[string, string]>;
+  body: Uint8Array;
+}): StoredResponse {
+  return {
+    status: init.status,
+    statusText: init.statusText || "",
+    headers: init.headers,
+    body: encodeBase64(init.body),
+  };
+}
+
+/**
+ * Reads a Response into a storable representation.
+ * The response body is consumed, so pass a clone if it is still needed.
+ * @param response - The response to serialize
+ * @returns The serialized response
+ */
+export async function serializeResponse(
+  response: Response
+): Promise<StoredResponse> {
+  const headers: Array<[string, string]> = [];
+  response.headers.forEach((value, name) => {
+    headers.push([name, value]);
+  });
+
+  return createStoredResponse({
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+    body: new Uint8Array(await response.arrayBuffer()),
+  });
+}
+
+/**
+ * Rebuilds a Response from its stored representation.
+ * @param stored - The serialized response
+ * @param extraHeaders - Headers to set on top of the stored ones
+ * @returns A new Response instance
+ */
+export function deserializeResponse(
+  stored: StoredResponse,
+  extraHeaders: Record<string, string> = {}
+): Response {
+  const headers = new Headers(stored.headers);
+  for (const [name, value] of Object.entries(extraHeaders)) {
+    headers.set(name, value);
+  }
+
+  // Null-body statuses must not be constructed with a body
+  const hasNullBody = [101, 204, 205, 304].includes(stored.status);
+
+  return new Response(hasNullBody ? null : decodeBase64(stored.body), {
+    status: stored.status,
+    statusText: stored.statusText,
+    headers,
+  });
+}
+
+/**
+ * Parses a stored value into an IdempotencyRecord.
+ * Values written by older versions (plain strings, or records without a
+ * state) are mapped onto the current lifecycle states.
+ * @param value - Raw value read from the store
+ * @returns The parsed record
+ */
+export function parseIdempotencyRecord(value: string): IdempotencyRecord {
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed === "object" && typeof parsed.id === "string") {
+      const record = parsed as IdempotencyRecord;
+      if (!record.state) {
+        record.state = record.response ? "completed" : "in-progress";
+      }
+      return record;
+    }
+  } catch {
+    // Fall through to legacy format
+  }
+  return { id: value, state: "in-progress" };
+}
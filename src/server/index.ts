@@ -1,6 +1,82 @@
 export { withIdempotency } from "./with-idempotency";
-export type { IdempotencyOptions, IdempotencyResult } from "./with-idempotency";
+export type { IdempotencyResult } from "./with-idempotency";
+export {
+  IdempotencyConflictError,
+  withIdempotentAction,
+} from "./with-idempotent-action";
+export type { IdempotentActionOptions } from "./with-idempotent-action";
+export { createIdempotencyEngine } from "./idempotency-engine";
+export type {
+  ClaimedIdempotencyKey,
+  IdempotencyClaim,
+  IdempotencyEngine,
+  IdempotencyOptions,
+  InFlightPolicy,
+} from "./idempotency-engine";
+
+export { combineScopes, headerScope, routeScope, userScope } from "./scope";
+export type { IdempotencyScope } from "./scope";
+export type {
+  CacheDecision,
+  CachePolicy,
+  StatusCachePolicy,
+  StatusClass,
+} from "./cache-policy";
+export { createRequestFingerprint } from "./fingerprint";
+export type { FingerprintOptions } from "./fingerprint";
+export type {
+  IdempotencyEvent,
+  IdempotencyEventBase,
+  IdempotencyEventHandler,
+  IdempotencyEventType,
+  StoreOperation,
+} from "./events";
+export {
+  createMetricsEventHandler,
+  createSpanEventHandler,
+  getIdempotencyEventAttributes,
+} from "./opentelemetry";
+export type {
+  EventAttributes,
+  MeterLike,
+  MetricsEventHandlerOptions,
+  SpanLike,
+} from "./opentelemetry";
 
 export { MemoryStore } from "./stores/memory-store";
 export { RedisStore } from "./stores/redis-store";
-export type { IdempotencyStore } from "./stores/memory-store";
+export { SqlStore } from "./stores/sql-store";
+export { TieredStore } from "./stores/tiered-store";
+export type { TieredStoreOptions } from "./stores/tiered-store";
+export type {
+  SqlDialect,
+  SqlQueryFn,
+  SqlStoreOptions,
+} from "./stores/sql-store";
+export {
+  createIoRedisAdapter,
+  createNodeRedisAdapter,
+  createUpstashRedisAdapter,
+} from "./stores/redis-adapters";
+export type {
+  IoRedisClientLike,
+  NodeRedisClientLike,
+  RedisClientAdapter,
+  RedisSetOptions,
+  UpstashRedisClientLike,
+} from "./stores/redis-adapters";
+export type {
+  IdempotencyStore,
+  MemoryStoreOptions,
+  MemoryStoreStats,
+} from "./stores/memory-store";
+export {
+  createStoredResponse,
+  deserializeResponse,
+  serializeResponse,
+} from "./idempotency-record";
+export type {
+  IdempotencyRecord,
+  IdempotencyRecordState,
+  StoredResponse,
+} from "./idempotency-record";
@@ -0,0 +1,195 @@
+import type { IdempotencyEvent, IdempotencyEventHandler } from "./events";
+
+/**
+ * Attribute values accepted by OpenTelemetry.
+ */
+export type EventAttributes = Record<string, string | number | boolean>;
+
+/**
+ * The parts of an OpenTelemetry `Span` used by createSpanEventHandler.
+ */
+export interface SpanLike {
+  addEvent(name: string, attributes?: EventAttributes): unknown;
+  setAttribute(key: string, value: string | number | boolean): unknown;
+}
+
+/**
+ * The parts of an OpenTelemetry `Meter` used by createMetricsEventHandler.
+ */
+export interface MeterLike {
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { add(value: number, attributes?: EventAttributes): void };
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { record(value: number, attributes?: EventAttributes): void };
+}
+
+/**
+ * Options for createMetricsEventHandler.
+ */
+export interface MetricsEventHandlerOptions {
+  /**
+   * Returns the route recorded with each metric. Keep it low-cardinality:
+   * replace IDs in paths with placeholders.
+   * @param event - The event being recorded
+   * @returns The route, such as `POST /orders/:id`
+   * @default `${event.method} ${event.path}`
+   */
+  getRoute?: (event: IdempotencyEvent) => string;
+}
+
+/**
+ * Converts an event into OpenTelemetry attributes. Attribute names follow
+ * the HTTP semantic conventions where they apply and use the `idempotency.`
+ * prefix otherwise.
+ * @param event - The event
+ * @param options - Whether to include the idempotency key, which is
+ * high-cardinality and may be sensitive
+ * @returns The attributes
+ *
+ * @example
+ * ```typescript
+ * onEvent: (event) => logger.info(getIdempotencyEventAttributes(event))
+ * ```
+ */
+export function getIdempotencyEventAttributes(
+  event: IdempotencyEvent,
+  options: { includeKey?: boolean } = {}
+): EventAttributes {
+  const attributes: EventAttributes = {
+    "idempotency.event": event.type,
+    "http.request.method": event.method,
+    "url.path": event.path,
+  };
+  if (options.includeKey) {
+    attributes["idempotency.key"] = event.idempotencyKey;
+  }
+
+  switch (event.type) {
+    case "claimed":
+    case "fingerprint-mismatch":
+      attributes["idempotency.request_id"] = event.requestId;
+      break;
+    case "completed":
+      attributes["idempotency.request_id"] = event.requestId;
+      attributes["http.response.status_code"] = event.status;
+      attributes["idempotency.state"] = event.state;
+      break;
+    case "replayed":
+      attributes["idempotency.request_id"] = event.requestId;
+      attributes["http.response.status_code"] = event.status;
+      break;
+    case "in-flight-conflict":
+      if (event.requestId) {
+        attributes["idempotency.request_id"] = event.requestId;
+      }
+      break;
+    case "released":
+      attributes["idempotency.request_id"] = event.requestId;
+      attributes["idempotency.release_reason"] = event.reason;
+      if (event.status !== undefined) {
+        attributes["http.response.status_code"] = event.status;
+      }
+      break;
+    case "store-operation":
+      attributes["idempotency.store.operation"] = event.operation;
+      attributes["idempotency.store.duration_ms"] = event.durationMs;
+      break;
+    case "store-error":
+      attributes["idempotency.store.operation"] = event.operation;
+      attributes["idempotency.store.duration_ms"] = event.durationMs;
+      attributes["error.type"] =
+        event.error instanceof Error ? event.error.name : typeof event.error;
+      break;
+  }
+
+  return attributes;
+}
+
+/**
+ * Creates an event handler that records decisions as events on the current
+ * span. Store calls are only recorded when they fail. Works with
+ * `@opentelemetry/api` without depending on it.
+ * @param getSpan - Returns the span to record on, usually the active span
+ * @returns Handler for the `onEvent` option
+ *
+ * @example
+ * ```typescript
+ * import { trace } from '@opentelemetry/api';
+ *
+ * export const POST = withIdempotency(handler, {
+ *   onEvent: createSpanEventHandler(() => trace.getActiveSpan()),
+ * });
+ * ```
+ */
+export function createSpanEventHandler(
+  getSpan: () => SpanLike | undefined | null
+): IdempotencyEventHandler {
+  return (event) => {
+    if (event.type === "store-operation") return;
+
+    const span = getSpan();
+    if (!span) return;
+
+    span.addEvent(
+      `idempotency.${event.type}`,
+      getIdempotencyEventAttributes(event)
+    );
+    if (event.type === "replayed") {
+      span.setAttribute("idempotency.replayed", true);
+    }
+  };
+}
+
+/**
+ * Creates an event handler that records OpenTelemetry metrics. Works with
+ * `@opentelemetry/api` without depending on it.
+ * - `idempotency.events`: counter of decisions, by `idempotency.event` and
+ *   `http.route`; the duplicate rate is `replayed` plus
+ *   `in-flight-conflict` over `claimed`
+ * - `idempotency.store.duration`: histogram of store call durations in
+ *   milliseconds, by operation, route and `error`
+ * @param meter - The meter to create the instruments with
+ * @param options - How routes are derived from events
+ * @returns Handler for the `onEvent` option
+ *
+ * @example
+ * ```typescript
+ * import { metrics } from '@opentelemetry/api';
+ *
+ * const onEvent = createMetricsEventHandler(metrics.getMeter('api'), {
+ *   getRoute: (event) => `${event.method} /orders/:id`,
+ * });
+ * ```
+ */
+export function createMetricsEventHandler(
+  meter: MeterLike,
+  options: MetricsEventHandlerOptions = {}
+): IdempotencyEventHandler {
+  const getRoute =
+    options.getRoute || ((event) => `${event.method} ${event.path}`);
+  const events = meter.createCounter("idempotency.events", {
+    description: "Idempotency decisions",
+  });
+  const storeDuration = meter.createHistogram("idempotency.store.duration", {
+    description: "Duration of idempotency store calls",
+    unit: "ms",
+  });
+
+  return (event) => {
+    const route = getRoute(event);
+    if (event.type === "store-operation" || event.type === "store-error") {
+      storeDuration.record(event.durationMs, {
+        "idempotency.store.operation": event.operation,
+        "http.route": route,
+        error: event.type === "store-error",
+      });
+      return;
+    }
+
+    events.add(1, { "idempotency.event": event.type, "http.route": route });
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Function that returns the namespace an idempotency key belongs to, such
+ * as the authenticated user, the tenant or the route. Keys are only
+ * deduplicated (and responses only replayed) within the same scope.
+ * Returning null, undefined or an empty string leaves the key unscoped.
+ * @param req - The incoming request
+ * @returns The scope of the request's key
+ */
+export type IdempotencyScope = (
+  req: Request
+) => string | null | undefined | Promise<string | null | undefined>;
+
+/**
+ * Scope used by `userScope` for requests without a user.
+ */
+const ANONYMOUS_USER = "anonymous";
+
+/**
+ * Scopes keys to the request's method and URL path, so the same key sent to
+ * two endpoints is processed by both.
+ * @returns Scope function
+ *
+ * @example
+ * ```typescript
+ * export const POST = withIdempotency(handler, { scope: routeScope() });
+ * ```
+ */
+export function routeScope(): IdempotencyScope {
+  return (req) =>
+    `route:${req.method.toUpperCase()} ${new URL(req.url).pathname}`;
+}
+
+/**
+ * Scopes keys to the user making the request, so one user can never be
+ * replayed another user's response. Requests without a user share the
+ * `anonymous` scope.
+ * @param getUserId - Returns the authenticated subject of the request, for
+ * example from a verified session or token
+ * @returns Scope function
+ *
+ * @example
+ * ```typescript
+ * export const POST = withIdempotency(handler, {
+ *   scope: userScope(async (req) => (await getSession(req))?.userId),
+ * });
+ * ```
+ */
+export function userScope(
+  getUserId: (
+    req: Request
+  ) => string | null | undefined | Promise<string | null | undefined>
+): IdempotencyScope {
+  return async (req) => `user:${(await getUserId(req)) || ANONYMOUS_USER}`;
+}
+
+/**
+ * Scopes keys to the value of a request header, such as a tenant ID.
+ * Requests without the header are left unscoped.
+ * @param name - Header name
+ * @returns Scope function
+ *
+ * @example
+ * ```typescript
+ * const scope = headerScope('X-Tenant-Id');
+ * ```
+ */
+export function headerScope(name: string): IdempotencyScope {
+  return (req) => {
+    const value = req.headers.get(name);
+    return value ? `header:${name.toLowerCase()}=${value}` : null;
+  };
+}
+
+/**
+ * Combines several scopes into one; keys are only shared by requests that
+ * match in every scope.
+ * @param scopes - Scopes to combine
+ * @returns Scope function
+ *
+ * @example
+ * ```typescript
+ * const scope = combineScopes(userScope(getUserId), routeScope());
+ * ```
+ */
+export function combineScopes(...scopes: IdempotencyScope[]): IdempotencyScope {
+  return async (req) => {
+    const parts = await Promise.all(scopes.map((scope) => scope(req)));
+    return parts.filter(Boolean).join("|") || null;
+  };
+}
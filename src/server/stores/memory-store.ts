@@ -1,6 +1,8 @@
 /**
  * Interface for idempotency key storage implementations.
  * Provides methods for storing, retrieving, and deleting idempotency keys.
+ * Backend errors should be thrown, not reported as a missing key, so the
+ * engine can surface them as `store-error` events.
  */
 export interface IdempotencyStore {
   /**
@@ -18,6 +20,48 @@ export interface IdempotencyStore {
    */
   set(key: string, value: string, timeToLiveMs?: number): Promise<void>;
 
+  /**
+   * Atomically stores a value only if the key does not already exist.
+   * Used to claim an idempotency key so that exactly one request wins.
+   * @param key - The key to store the value under
+   * @param value - The value to store
+   * @param timeToLiveMs - Time to live in milliseconds (optional)
+   * @returns True if the value was stored, false if the key already existed
+   */
+  setIfAbsent(
+    key: string,
+    value: string,
+    timeToLiveMs?: number
+  ): Promise<boolean>;
+
+  /**
+   * Atomically replaces a value (and its TTL) only if the current value
+   * equals `expectedValue`. Used to extend an in-progress lease and to
+   * complete it, so a worker that lost its lease cannot overwrite the entry
+   * of the worker that reclaimed the key.
+   * @param key - The key to update
+   * @param expectedValue - The value the key must currently hold
+   * @param value - The new value
+   * @param timeToLiveMs - New time to live in milliseconds (optional)
+   * @returns True if the value was replaced, false if the key held another
+   * value or did not exist
+   */
+  compareAndSet(
+    key: string,
+    expectedValue: string,
+    value: string,
+    timeToLiveMs?: number
+  ): Promise<boolean>;
+
+  /**
+   * Atomically deletes a key only if its current value equals
+   * `expectedValue`. Used to release a lease held by the current worker.
+   * @param key - The key to delete
+   * @param expectedValue - The value the key must currently hold
+   * @returns True if the key was deleted
+   */
+  compareAndDelete(key: string, expectedValue: string): Promise<boolean>;
+
   /**
    * Deletes a key from the store.
    * @param key - The key to delete
@@ -25,6 +69,51 @@ export interface IdempotencyStore {
   delete(key: string): Promise<void>;
 }
 
+/**
+ * Configuration options for MemoryStore.
+ */
+export interface MemoryStoreOptions {
+  /**
+   * Maximum number of entries. When a write exceeds it, the least recently
+   * used entries are evicted. Keep it well above the number of requests in
+   * flight: an evicted in-progress entry lets a duplicate run again.
+   * @default Infinity (unbounded)
+   */
+  maxEntries?: number;
+
+  /**
+   * Interval at which expired entries are removed, in milliseconds. The
+   * timer starts on the first write, so creating a store at module scope
+   * doesn't start one. Set to 0 to only remove expired entries when they
+   * are read. Call `dispose()` to stop it.
+   * @default 60 seconds (60000ms)
+   */
+  sweepIntervalMs?: number;
+
+  /**
+   * Clock used for expiry, in milliseconds since the epoch. Inject one to
+   * control time in tests.
+   * @default Date.now
+   */
+  now?: () => number;
+}
+
+/**
+ * Counters describing a MemoryStore.
+ */
+export interface MemoryStoreStats {
+  /** Number of entries currently held, including expired ones not yet swept */
+  size: number;
+  /** Reads that found a live entry */
+  hits: number;
+  /** Reads that found no entry or an expired one */
+  misses: number;
+  /** Entries evicted to stay within `maxEntries` */
+  evictions: number;
+  /** Expired entries removed by reads or sweeps */
+  expirations: number;
+}
+
 /**
  * In-memory implementation of IdempotencyStore.
  *
@@ -33,10 +122,87 @@ export interface IdempotencyStore {
  * - Single-instance applications
  * - Short-lived idempotency keys
  *
+ * Expired entries are swept periodically once the store is written to, and
+ * `maxEntries` bounds the store with least-recently-used eviction.
+ *
  * Note: Data is lost when the process restarts.
+ *
+ * @example
+ * ```typescript
+ * const store = new MemoryStore({ maxEntries: 10_000 });
+ * console.log(store.stats()); // { size, hits, misses, evictions, expirations }
+ * store.dispose(); // stop the sweep timer on shutdown
+ * ```
  */
 export class MemoryStore implements IdempotencyStore {
+  // Map iteration order doubles as recency order: oldest first
   private cache = new Map<string, { value: string; expiresAt: number }>();
+  private maxEntries: number;
+  private now: () => number;
+  private sweepIntervalMs: number;
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private disposed = false;
+  private counters = { hits: 0, misses: 0, evictions: 0, expirations: 0 };
+
+  /**
+   * Creates a new MemoryStore instance.
+   * @param options - Capacity, sweep interval and clock
+   */
+  constructor(options: MemoryStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? Infinity;
+    this.now = options.now || (() => Date.now());
+    this.sweepIntervalMs = options.sweepIntervalMs ?? 60 * 1000;
+  }
+
+  /**
+   * Starts the background sweep unless it is running, disabled or disposed.
+   * Deferred to the first write because some runtimes (edge workers) don't
+   * allow timers at module scope.
+   */
+  private startSweep(): void {
+    if (this.sweepTimer || this.disposed || this.sweepIntervalMs <= 0) return;
+
+    this.sweepTimer = setInterval(() => this.sweep(), this.sweepIntervalMs);
+    // Don't keep a Node.js process alive just to sweep
+    (this.sweepTimer as unknown as { unref?: () => void }).unref?.();
+  }
+
+  /**
+   * Returns the live entry for a key, removing it if it has expired.
+   * @param key - The key to look up
+   * @returns The entry or undefined if not found/expired
+   */
+  private getEntry(key: string) {
+    const cachedItem = this.cache.get(key);
+    if (!cachedItem) return undefined;
+
+    if (this.now() > cachedItem.expiresAt) {
+      this.cache.delete(key);
+      this.counters.expirations++;
+      return undefined;
+    }
+
+    return cachedItem;
+  }
+
+  /**
+   * Writes an entry as the most recently used one and evicts the least
+   * recently used entries if the store is over capacity.
+   * @param key - The key to store the value under
+   * @param value - The value to store
+   * @param timeToLiveMs - Time to live in milliseconds
+   */
+  private writeEntry(key: string, value: string, timeToLiveMs: number): void {
+    this.startSweep();
+    this.cache.delete(key);
+    this.cache.set(key, { value, expiresAt: this.now() + timeToLiveMs });
+
+    for (const oldestKey of this.cache.keys()) {
+      if (this.cache.size <= this.maxEntries) break;
+      this.cache.delete(oldestKey);
+      this.counters.evictions++;
+    }
+  }
 
   /**
    * Retrieves a value by key from the in-memory cache.
@@ -45,14 +211,16 @@ export class MemoryStore implements IdempotencyStore {
    * @returns The stored value or null if not found/expired
    */
   async get(key: string): Promise<string | null> {
-    const cachedItem = this.cache.get(key);
-    if (!cachedItem) return null;
-
-    if (Date.now() > cachedItem.expiresAt) {
-      this.cache.delete(key);
+    const cachedItem = this.getEntry(key);
+    if (!cachedItem) {
+      this.counters.misses++;
       return null;
     }
 
+    this.counters.hits++;
+    // Move to the end of the recency order
+    this.cache.delete(key);
+    this.cache.set(key, cachedItem);
     return cachedItem.value;
   }
 
@@ -67,10 +235,60 @@ export class MemoryStore implements IdempotencyStore {
     value: string,
     timeToLiveMs = 24 * 60 * 60 * 1000
   ): Promise<void> {
-    this.cache.set(key, {
-      value,
-      expiresAt: Date.now() + timeToLiveMs,
-    });
+    this.writeEntry(key, value, timeToLiveMs);
+  }
+
+  /**
+   * Stores a value only if the key is missing or expired.
+   * Runs synchronously between awaits, so concurrent callers cannot interleave.
+   * @param key - The key to store the value under
+   * @param value - The value to store
+   * @param timeToLiveMs - Time to live in milliseconds (default: 24 hours)
+   * @returns True if the value was stored, false if the key already existed
+   */
+  async setIfAbsent(
+    key: string,
+    value: string,
+    timeToLiveMs = 24 * 60 * 60 * 1000
+  ): Promise<boolean> {
+    if (this.getEntry(key)) return false;
+
+    this.writeEntry(key, value, timeToLiveMs);
+    return true;
+  }
+
+  /**
+   * Replaces a value and its TTL only if the key currently holds
+   * `expectedValue` and has not expired.
+   * @param key - The key to update
+   * @param expectedValue - The value the key must currently hold
+   * @param value - The new value
+   * @param timeToLiveMs - Time to live in milliseconds (default: 24 hours)
+   * @returns True if the value was replaced
+   */
+  async compareAndSet(
+    key: string,
+    expectedValue: string,
+    value: string,
+    timeToLiveMs = 24 * 60 * 60 * 1000
+  ): Promise<boolean> {
+    if (this.getEntry(key)?.value !== expectedValue) return false;
+
+    this.writeEntry(key, value, timeToLiveMs);
+    return true;
+  }
+
+  /**
+   * Deletes a key only if it currently holds `expectedValue`.
+   * @param key - The key to delete
+   * @param expectedValue - The value the key must currently hold
+   * @returns True if the key was deleted
+   */
+  async compareAndDelete(key: string, expectedValue: string): Promise<boolean> {
+    if (this.getEntry(key)?.value !== expectedValue) return false;
+
+    this.cache.delete(key);
+    return true;
   }
 
   /**
@@ -80,4 +298,42 @@ export class MemoryStore implements IdempotencyStore {
   async delete(key: string): Promise<void> {
     this.cache.delete(key);
   }
+
+  /**
+   * Removes all expired entries. Runs automatically every
+   * `sweepIntervalMs` after the first write.
+   * @returns Number of entries removed
+   */
+  sweep(): number {
+    const now = this.now();
+    let removed = 0;
+    for (const [key, cachedItem] of this.cache) {
+      if (now > cachedItem.expiresAt) {
+        this.cache.delete(key);
+        removed++;
+      }
+    }
+    this.counters.expirations += removed;
+    return removed;
+  }
+
+  /**
+   * Returns the current size and the counters accumulated since creation.
+   * @returns Store statistics
+   */
+  stats(): MemoryStoreStats {
+    return { size: this.cache.size, ...this.counters };
+  }
+
+  /**
+   * Stops the background sweep. The store keeps working; expired entries
+   * are then only removed when read.
+   */
+  dispose(): void {
+    this.disposed = true;
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
 }
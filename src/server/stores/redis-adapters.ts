@@ -0,0 +1,211 @@
+/**
+ * Options for a Redis SET command issued through an adapter.
+ */
+export interface RedisSetOptions {
+  /** Time to live in milliseconds (PX) */
+  px: number;
+  /** Only set the key if it does not already exist (NX) */
+  nx?: boolean;
+}
+
+/**
+ * Minimal, typed view of a Redis client used by RedisStore.
+ *
+ * Adapters translate these calls into the API of a concrete client library,
+ * so RedisStore does not depend on any particular driver. Use one of the
+ * ready-made adapters or implement this interface for another client.
+ */
+export interface RedisClientAdapter {
+  /**
+   * Reads a string value.
+   * @param key - The full Redis key
+   * @returns The value or null if the key does not exist
+   */
+  get(key: string): Promise<string | null>;
+
+  /**
+   * Writes a string value with a millisecond TTL.
+   * @param key - The full Redis key
+   * @param value - The value to store
+   * @param options - TTL and NX flag
+   * @returns True if the value was written, false if NX prevented it
+   */
+  set(key: string, value: string, options: RedisSetOptions): Promise<boolean>;
+
+  /**
+   * Deletes a key.
+   * @param key - The full Redis key
+   */
+  del(key: string): Promise<void>;
+
+  /**
+   * Runs a Lua script atomically (EVAL). Used for compare-and-set.
+   * @param script - The Lua script
+   * @param keys - Full Redis keys, available as KEYS in the script
+   * @param args - Arguments, available as ARGV in the script
+   * @returns The script's reply
+   */
+  eval(script: string, keys: string[], args: string[]): Promise<unknown>;
+}
+
+/**
+ * Subset of the node-redis v4 client API used by the adapter.
+ */
+export interface NodeRedisClientLike {
+  get(key: string): Promise<string | null>;
+  set(
+    key: string,
+    value: string,
+    options: { PX: number; NX?: true }
+  ): Promise<string | null>;
+  del(key: string): Promise<number>;
+  eval(
+    script: string,
+    options: { keys: string[]; arguments: string[] }
+  ): Promise<unknown>;
+}
+
+/**
+ * Subset of the ioredis client API used by the adapter.
+ */
+export interface IoRedisClientLike {
+  get(key: string): Promise<string | null>;
+  set(
+    key: string,
+    value: string,
+    millisecondsToken: "PX",
+    milliseconds: number
+  ): Promise<string | null>;
+  set(
+    key: string,
+    value: string,
+    millisecondsToken: "PX",
+    milliseconds: number,
+    nx: "NX"
+  ): Promise<string | null>;
+  del(key: string): Promise<number>;
+  eval(script: string, numkeys: number, ...args: string[]): Promise<unknown>;
+}
+
+/**
+ * Subset of the Upstash Redis client API used by the adapter.
+ */
+export interface UpstashRedisClientLike {
+  get<TValue = string>(key: string): Promise<TValue | null>;
+  set(
+    key: string,
+    value: string,
+    options: { px: number }
+  ): Promise<string | null>;
+  set(
+    key: string,
+    value: string,
+    options: { px: number; nx: true }
+  ): Promise<string | null>;
+  del(key: string): Promise<number>;
+  eval(script: string, keys: string[], args: string[]): Promise<unknown>;
+}
+
+/**
+ * Creates a RedisClientAdapter for a node-redis v4 client.
+ *
+ * @param client - A connected node-redis client
+ * @returns Adapter for RedisStore
+ *
+ * @example
+ * ```typescript
+ * import { createClient } from 'redis';
+ *
+ * const client = createClient({ url: 'redis://localhost:6379' });
+ * await client.connect();
+ * const store = new RedisStore(createNodeRedisAdapter(client));
+ * ```
+ */
+export function createNodeRedisAdapter(
+  client: NodeRedisClientLike
+): RedisClientAdapter {
+  return {
+    get: (key) => client.get(key),
+    async set(key, value, options) {
+      const result = await client.set(
+        key,
+        value,
+        options.nx ? { PX: options.px, NX: true } : { PX: options.px }
+      );
+      return result === "OK";
+    },
+    async del(key) {
+      await client.del(key);
+    },
+    eval: (script, keys, args) =>
+      client.eval(script, { keys, arguments: args }),
+  };
+}
+
+/**
+ * Creates a RedisClientAdapter for an ioredis client.
+ *
+ * @param client - An ioredis client
+ * @returns Adapter for RedisStore
+ *
+ * @example
+ * ```typescript
+ * import Redis from 'ioredis';
+ *
+ * const store = new RedisStore(createIoRedisAdapter(new Redis()));
+ * ```
+ */
+export function createIoRedisAdapter(
+  client: IoRedisClientLike
+): RedisClientAdapter {
+  return {
+    get: (key) => client.get(key),
+    async set(key, value, options) {
+      const result = options.nx
+        ? await client.set(key, value, "PX", options.px, "NX")
+        : await client.set(key, value, "PX", options.px);
+      return result === "OK";
+    },
+    async del(key) {
+      await client.del(key);
+    },
+    eval: (script, keys, args) =>
+      client.eval(script, keys.length, ...keys, ...args),
+  };
+}
+
+/**
+ * Creates a RedisClientAdapter for an Upstash Redis (REST) client.
+ *
+ * @param client - An Upstash Redis client
+ * @returns Adapter for RedisStore
+ *
+ * @example
+ * ```typescript
+ * import { Redis } from '@upstash/redis';
+ *
+ * const store = new RedisStore(createUpstashRedisAdapter(Redis.fromEnv()));
+ * ```
+ */
+export function createUpstashRedisAdapter(
+  client: UpstashRedisClientLike
+): RedisClientAdapter {
+  return {
+    async get(key) {
+      // Upstash deserializes JSON values by default; normalize back to text
+      const value = await client.get<unknown>(key);
+      if (value === null || value === undefined) return null;
+      return typeof value === "string" ? value : JSON.stringify(value);
+    },
+    async set(key, value, options) {
+      const result = options.nx
+        ? await client.set(key, value, { px: options.px, nx: true })
+        : await client.set(key, value, { px: options.px });
+      return result === "OK";
+    },
+    async del(key) {
+      await client.del(key);
+    },
+    eval: (script, keys, args) => client.eval(script, keys, args),
+  };
+}
@@ -1,4 +1,24 @@
 import type { IdempotencyStore } from "./memory-store";
+import type { RedisClientAdapter } from "./redis-adapters";
+
+/**
+ * Lua script for compareAndSet: replaces the value and TTL of KEYS[1] with
+ * ARGV[2] and ARGV[3] (milliseconds) if it currently holds ARGV[1].
+ */
+export const COMPARE_AND_SET_SCRIPT = `if redis.call("GET", KEYS[1]) == ARGV[1] then
+  redis.call("SET", KEYS[1], ARGV[2], "PX", ARGV[3])
+  return 1
+end
+return 0`;
+
+/**
+ * Lua script for compareAndDelete: deletes KEYS[1] if it currently holds
+ * ARGV[1].
+ */
+export const COMPARE_AND_DELETE_SCRIPT = `if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0`;
 
 /**
  * Redis implementation of IdempotencyStore.
@@ -12,22 +32,26 @@ import type { IdempotencyStore } from "./memory-store";
  * @example
  * ```typescript
  * import { createClient } from 'redis';
- * import { RedisStore } from './redis-store';
+ * import { RedisStore, createNodeRedisAdapter } from 'use-safe-submit/server';
  *
  * const redisClient = createClient({ url: 'redis://localhost:6379' });
- * const store = new RedisStore(redisClient, 'myapp:idempotency:');
+ * await redisClient.connect();
+ * const store = new RedisStore(
+ *   createNodeRedisAdapter(redisClient),
+ *   'myapp:idempotency:'
+ * );
  * ```
  */
 export class RedisStore implements IdempotencyStore {
-  private redisClient: any;
+  private redisClient: RedisClientAdapter;
   private keyPrefix: string;
 
   /**
    * Creates a new RedisStore instance.
-   * @param redisClient - Redis client instance (any Redis-compatible client)
+   * @param redisClient - Adapter wrapping the Redis client (see redis-adapters)
    * @param keyPrefix - Prefix for all stored keys (default: "idempotency:")
    */
-  constructor(redisClient: any, keyPrefix = "idempotency:") {
+  constructor(redisClient: RedisClientAdapter, keyPrefix = "idempotency:") {
     this.redisClient = redisClient;
     this.keyPrefix = keyPrefix;
   }
@@ -47,36 +71,80 @@ export class RedisStore implements IdempotencyStore {
    * @returns The stored value or null if not found/expired
    */
   async get(key: string): Promise<string | null> {
-    try {
-      const value = await this.redisClient.get(this.createPrefixedKey(key));
-      return value;
-    } catch (error) {
-      console.error("Redis get error:", error);
-      return null;
-    }
+    return this.redisClient.get(this.createPrefixedKey(key));
   }
 
   /**
-   * Stores a value with the given key and TTL in Redis.
+   * Stores a value with the given key and TTL in Redis (SET PX).
    * @param key - The key to store the value under
    * @param value - The value to store
-   * @param timeToLiveSeconds - Time to live in seconds (default: 24 hours)
+   * @param timeToLiveMs - Time to live in milliseconds (default: 24 hours)
    */
   async set(
     key: string,
     value: string,
-    timeToLiveSeconds = 24 * 60 * 60
+    timeToLiveMs = 24 * 60 * 60 * 1000
   ): Promise<void> {
-    try {
-      await this.redisClient.setex(
-        this.createPrefixedKey(key),
-        timeToLiveSeconds,
-        value
-      );
-    } catch (error) {
-      console.error("Redis set error:", error);
-      throw error;
-    }
+    await this.redisClient.set(this.createPrefixedKey(key), value, {
+      px: timeToLiveMs,
+    });
+  }
+
+  /**
+   * Atomically stores a value only if the key does not exist (SET NX PX).
+   * @param key - The key to store the value under
+   * @param value - The value to store
+   * @param timeToLiveMs - Time to live in milliseconds (default: 24 hours)
+   * @returns True if the value was stored, false if the key already existed
+   */
+  async setIfAbsent(
+    key: string,
+    value: string,
+    timeToLiveMs = 24 * 60 * 60 * 1000
+  ): Promise<boolean> {
+    return await this.redisClient.set(this.createPrefixedKey(key), value, {
+      px: timeToLiveMs,
+      nx: true,
+    });
+  }
+
+  /**
+   * Atomically replaces a value and its TTL if the key currently holds
+   * `expectedValue` (Lua script).
+   * @param key - The key to update
+   * @param expectedValue - The value the key must currently hold
+   * @param value - The new value
+   * @param timeToLiveMs - Time to live in milliseconds (default: 24 hours)
+   * @returns True if the value was replaced
+   */
+  async compareAndSet(
+    key: string,
+    expectedValue: string,
+    value: string,
+    timeToLiveMs = 24 * 60 * 60 * 1000
+  ): Promise<boolean> {
+    const result = await this.redisClient.eval(
+      COMPARE_AND_SET_SCRIPT,
+      [this.createPrefixedKey(key)],
+      [expectedValue, value, String(timeToLiveMs)]
+    );
+    return Number(result) === 1;
+  }
+
+  /**
+   * Atomically deletes a key if it currently holds `expectedValue` (Lua
+   * script).
+   * @param key - The key to delete
+   * @param expectedValue - The value the key must currently hold
+   * @returns True if the key was deleted
+   */
+  async compareAndDelete(key: string, expectedValue: string): Promise<boolean> {
+    const result = await this.redisClient.eval(
+      COMPARE_AND_DELETE_SCRIPT,
+      [this.createPrefixedKey(key)],
+      [expectedValue]
+    );
+    return Number(result) === 1;
   }
 
   /**
@@ -84,10 +152,6 @@ export class RedisStore implements IdempotencyStore {
    * @param key - The key to delete
    */
   async delete(key: string): Promise<void> {
-    try {
-      await this.redisClient.del(this.createPrefixedKey(key));
-    } catch (error) {
-      console.error("Redis delete error:", error);
-    }
+    await this.redisClient.del(this.createPrefixedKey(key));
   }
 }
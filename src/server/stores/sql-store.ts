@@ -0,0 +1,270 @@
+import type { IdempotencyStore } from "./memory-store";
+
+/**
+ * SQL dialect used by SqlStore. Determines the parameter placeholders.
+ */
+export type SqlDialect = "postgres" | "sqlite";
+
+/**
+ * Runs a parameterized statement and resolves to the rows it returns.
+ * Wrap your driver in one of these; statements that change rows use
+ * `RETURNING`, so the returned rows are also the affected rows.
+ * @param sql - The statement, with `$1`-style (Postgres) or `?` (SQLite)
+ * placeholders
+ * @param params - Values for the placeholders
+ * @returns The result rows
+ *
+ * @example
+ * ```typescript
+ * // node-postgres
+ * const query: SqlQueryFn = async (sql, params) =>
+ *   (await pool.query(sql, params)).rows;
+ *
+ * // better-sqlite3
+ * const query: SqlQueryFn = async (sql, params) =>
+ *   db.prepare(sql).all(...params);
+ * ```
+ */
+export type SqlQueryFn = (
+  sql: string,
+  params: unknown[]
+) => Promise<Array<Record<string, unknown>>>;
+
+/**
+ * Configuration options for SqlStore.
+ */
+export interface SqlStoreOptions {
+  /**
+   * Function that runs statements against your database.
+   */
+  query: SqlQueryFn;
+
+  /**
+   * SQL dialect of the database. SQLite needs version 3.35 or later
+   * (for `RETURNING`).
+   */
+  dialect: SqlDialect;
+
+  /**
+   * Name of the table holding the keys, optionally schema-qualified.
+   * @default "idempotency_keys"
+   */
+  tableName?: string;
+
+  /**
+   * Clock used for expiry, in milliseconds since the epoch.
+   * @default Date.now
+   */
+  now?: () => number;
+}
+
+/**
+ * Table names accepted by SqlStore. Names are interpolated into statements,
+ * so anything else is rejected.
+ */
+const TABLE_NAME_PATTERN =
+  /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/;
+
+/**
+ * SQL implementation of IdempotencyStore for Postgres and SQLite.
+ *
+ * Keys are stored in a table with a `key` primary key, a `value` column and
+ * an `expires_at` column (milliseconds since the epoch). Claims use a single
+ * `INSERT ... ON CONFLICT` statement, so they are atomic without explicit
+ * transactions. The store is driver-agnostic: pass a query function for
+ * your driver.
+ *
+ * This store is suitable for:
+ * - Deployments with a relational database but no Redis
+ * - Multi-instance deployments sharing that database
+ *
+ * @example
+ * ```typescript
+ * import { Pool } from 'pg';
+ * import { SqlStore } from 'use-safe-submit/server';
+ *
+ * const pool = new Pool();
+ * const store = new SqlStore({
+ *   dialect: 'postgres',
+ *   query: async (sql, params) => (await pool.query(sql, params)).rows,
+ * });
+ * await store.createSchema();
+ * ```
+ */
+export class SqlStore implements IdempotencyStore {
+  private query: SqlQueryFn;
+  private dialect: SqlDialect;
+  private tableName: string;
+  private now: () => number;
+
+  /**
+   * Creates a new SqlStore instance.
+   * @param options - Query function, dialect, table name and clock
+   */
+  constructor(options: SqlStoreOptions) {
+    const tableName = options.tableName || "idempotency_keys";
+    if (!TABLE_NAME_PATTERN.test(tableName)) {
+      throw new Error(`Invalid table name: ${tableName}`);
+    }
+
+    this.query = options.query;
+    this.dialect = options.dialect;
+    this.tableName = tableName;
+    this.now = options.now || (() => Date.now());
+  }
+
+  /**
+   * Runs a statement written with `$1`-style placeholders, converting them
+   * to `?` for SQLite. Placeholders must appear in parameter order.
+   * @param statement - The statement
+   * @param params - Values for the placeholders
+   * @returns The result rows
+   */
+  private run(
+    statement: string,
+    params: unknown[]
+  ): Promise<Array<Record<string, unknown>>> {
+    return this.query(
+      this.dialect === "sqlite" ? statement.replace(/\$\d+/g, "?") : statement,
+      params
+    );
+  }
+
+  /**
+   * Creates the table and the expiry index if they don't exist. Run it once
+   * at startup or from a migration.
+   */
+  async createSchema(): Promise<void> {
+    const indexName = `${this.tableName.replace(".", "_")}_expires_at_idx`;
+    await this.query(
+      `CREATE TABLE IF NOT EXISTS ${this.tableName} (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL,
+  expires_at BIGINT NOT NULL
+)`,
+      []
+    );
+    await this.query(
+      `CREATE INDEX IF NOT EXISTS ${indexName} ON ${this.tableName} (expires_at)`,
+      []
+    );
+  }
+
+  /**
+   * Retrieves a value by key, ignoring expired rows.
+   * @param key - The key to look up
+   * @returns The stored value or null if not found/expired
+   */
+  async get(key: string): Promise<string | null> {
+    const rows = await this.run(
+      `SELECT value FROM ${this.tableName} WHERE key = $1 AND expires_at > $2`,
+      [key, this.now()]
+    );
+    return rows.length > 0 ? String(rows[0].value) : null;
+  }
+
+  /**
+   * Inserts or replaces a value with the given TTL.
+   * @param key - The key to store the value under
+   * @param value - The value to store
+   * @param timeToLiveMs - Time to live in milliseconds (default: 24 hours)
+   */
+  async set(
+    key: string,
+    value: string,
+    timeToLiveMs = 24 * 60 * 60 * 1000
+  ): Promise<void> {
+    await this.run(
+      `INSERT INTO ${this.tableName} (key, value, expires_at)
+VALUES ($1, $2, $3)
+ON CONFLICT (key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at`,
+      [key, value, this.now() + timeToLiveMs]
+    );
+  }
+
+  /**
+   * Atomically inserts a value if the key is absent or its row has expired
+   * (`INSERT ... ON CONFLICT DO UPDATE ... WHERE expired`).
+   * @param key - The key to store the value under
+   * @param value - The value to store
+   * @param timeToLiveMs - Time to live in milliseconds (default: 24 hours)
+   * @returns True if the value was stored, false if the key already existed
+   */
+  async setIfAbsent(
+    key: string,
+    value: string,
+    timeToLiveMs = 24 * 60 * 60 * 1000
+  ): Promise<boolean> {
+    const now = this.now();
+    const rows = await this.run(
+      `INSERT INTO ${this.tableName} AS existing (key, value, expires_at)
+VALUES ($1, $2, $3)
+ON CONFLICT (key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at
+WHERE existing.expires_at <= $4
+RETURNING key`,
+      [key, value, now + timeToLiveMs, now]
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Atomically replaces a value and its TTL if the key currently holds
+   * `expectedValue` and has not expired.
+   * @param key - The key to update
+   * @param expectedValue - The value the key must currently hold
+   * @param value - The new value
+   * @param timeToLiveMs - Time to live in milliseconds (default: 24 hours)
+   * @returns True if the value was replaced
+   */
+  async compareAndSet(
+    key: string,
+    expectedValue: string,
+    value: string,
+    timeToLiveMs = 24 * 60 * 60 * 1000
+  ): Promise<boolean> {
+    const now = this.now();
+    const rows = await this.run(
+      `UPDATE ${this.tableName} SET value = $1, expires_at = $2
+WHERE key = $3 AND value = $4 AND expires_at > $5
+RETURNING key`,
+      [value, now + timeToLiveMs, key, expectedValue, now]
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Atomically deletes a key if it currently holds `expectedValue`.
+   * @param key - The key to delete
+   * @param expectedValue - The value the key must currently hold
+   * @returns True if the key was deleted
+   */
+  async compareAndDelete(key: string, expectedValue: string): Promise<boolean> {
+    const rows = await this.run(
+      `DELETE FROM ${this.tableName} WHERE key = $1 AND value = $2 AND expires_at > $3
+RETURNING key`,
+      [key, expectedValue, this.now()]
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Deletes a key.
+   * @param key - The key to delete
+   */
+  async delete(key: string): Promise<void> {
+    await this.run(`DELETE FROM ${this.tableName} WHERE key = $1`, [key]);
+  }
+
+  /**
+   * Deletes all expired rows. Expired rows are already ignored by reads;
+   * run this periodically (for example from a cron job) to reclaim space.
+   * @returns Number of rows deleted
+   */
+  async purgeExpired(): Promise<number> {
+    const rows = await this.run(
+      `DELETE FROM ${this.tableName} WHERE expires_at <= $1 RETURNING key`,
+      [this.now()]
+    );
+    return rows.length;
+  }
+}
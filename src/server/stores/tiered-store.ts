@@ -0,0 +1,233 @@
+import { parseIdempotencyRecord } from "../idempotency-record";
+import {
+  MemoryStore,
+  type IdempotencyStore,
+  type MemoryStoreStats,
+} from "./memory-store";
+
+/**
+ * Configuration options for TieredStore.
+ */
+export interface TieredStoreOptions {
+  /**
+   * Shared store holding the authoritative state (L2), such as a RedisStore.
+   */
+  remote: IdempotencyStore;
+
+  /**
+   * Maximum time a value is served from the local cache, in milliseconds.
+   * Values read from the remote store are cached for this long without
+   * knowing their remaining TTL there, so a key can be served locally for up
+   * to this long after it expired remotely.
+   * @default 60 seconds (60000ms)
+   */
+  localTimeToLiveMs?: number;
+
+  /**
+   * Maximum number of entries in the local cache, evicted least recently
+   * used first.
+   * @default 10000
+   */
+  localMaxEntries?: number;
+
+  /**
+   * Decides whether a value may be cached locally.
+   * @param value - The value read from or written to the remote store
+   * @returns True to cache the value
+   * @default Caches idempotency records that are completed or failed
+   */
+  isCacheable?: (value: string) => boolean;
+}
+
+/**
+ * Default cacheability check: only settled records are cached. They are not
+ * changed again until they expire, whereas in-progress records are renewed,
+ * completed or released by whichever instance holds the lease.
+ * @param value - The stored value
+ * @returns True if the value is a settled idempotency record
+ */
+function isSettledRecord(value: string): boolean {
+  return parseIdempotencyRecord(value).state !== "in-progress";
+}
+
+/**
+ * Two-tier implementation of IdempotencyStore: a local MemoryStore (L1) in
+ * front of a shared remote store (L2).
+ *
+ * Reads go to the local cache first and fall back to the remote store
+ * (read-through); writes go to the remote store and update the local cache
+ * (write-through). Only settled entries are cached locally, so claims,
+ * lease renewals and in-progress checks always go to the remote store,
+ * while duplicates of finished requests are answered without a round trip.
+ *
+ * This store is suitable for:
+ * - Multi-instance deployments with a shared store and bursts of retries
+ * - Reducing load on Redis or a database for hot keys
+ *
+ * @example
+ * ```typescript
+ * const store = new TieredStore({
+ *   remote: new RedisStore(createNodeRedisAdapter(redis)),
+ *   localTimeToLiveMs: 30_000,
+ *   localMaxEntries: 5_000,
+ * });
+ * ```
+ */
+export class TieredStore implements IdempotencyStore {
+  private local: MemoryStore;
+  private remote: IdempotencyStore;
+  private localTimeToLiveMs: number;
+  private isCacheable: (value: string) => boolean;
+
+  /**
+   * Creates a new TieredStore instance.
+   * @param options - Remote store and local cache settings
+   */
+  constructor(options: TieredStoreOptions) {
+    this.remote = options.remote;
+    this.localTimeToLiveMs = options.localTimeToLiveMs ?? 60 * 1000;
+    this.isCacheable = options.isCacheable || isSettledRecord;
+    this.local = new MemoryStore({
+      maxEntries: options.localMaxEntries ?? 10000,
+    });
+  }
+
+  /**
+   * Caches a value locally if it is cacheable, or drops the local copy.
+   * @param key - The key of the value
+   * @param value - The value stored remotely
+   * @param timeToLiveMs - Remaining time to live in the remote store, if known
+   */
+  private async cacheLocally(
+    key: string,
+    value: string,
+    timeToLiveMs?: number
+  ): Promise<void> {
+    if (!this.isCacheable(value)) {
+      await this.local.delete(key);
+      return;
+    }
+    await this.local.set(
+      key,
+      value,
+      Math.min(timeToLiveMs ?? this.localTimeToLiveMs, this.localTimeToLiveMs)
+    );
+  }
+
+  /**
+   * Retrieves a value from the local cache, or from the remote store on a
+   * miss.
+   * @param key - The key to look up
+   * @returns The stored value or null if not found/expired
+   */
+  async get(key: string): Promise<string | null> {
+    const cached = await this.local.get(key);
+    if (cached !== null) return cached;
+
+    const value = await this.remote.get(key);
+    if (value !== null) {
+      await this.cacheLocally(key, value);
+    }
+    return value;
+  }
+
+  /**
+   * Stores a value in the remote store and updates the local cache.
+   * @param key - The key to store the value under
+   * @param value - The value to store
+   * @param timeToLiveMs - Time to live in milliseconds (optional)
+   */
+  async set(key: string, value: string, timeToLiveMs?: number): Promise<void> {
+    await this.remote.set(key, value, timeToLiveMs);
+    await this.cacheLocally(key, value, timeToLiveMs);
+  }
+
+  /**
+   * Claims a key in the remote store. Keys with a settled entry in the local
+   * cache are reported as taken without a round trip.
+   * @param key - The key to store the value under
+   * @param value - The value to store
+   * @param timeToLiveMs - Time to live in milliseconds (optional)
+   * @returns True if the value was stored, false if the key already existed
+   */
+  async setIfAbsent(
+    key: string,
+    value: string,
+    timeToLiveMs?: number
+  ): Promise<boolean> {
+    if ((await this.local.get(key)) !== null) return false;
+
+    const stored = await this.remote.setIfAbsent(key, value, timeToLiveMs);
+    if (stored) {
+      await this.cacheLocally(key, value, timeToLiveMs);
+    }
+    return stored;
+  }
+
+  /**
+   * Replaces a value in the remote store if it holds `expectedValue`, and
+   * updates the local cache.
+   * @param key - The key to update
+   * @param expectedValue - The value the key must currently hold
+   * @param value - The new value
+   * @param timeToLiveMs - Time to live in milliseconds (optional)
+   * @returns True if the value was replaced
+   */
+  async compareAndSet(
+    key: string,
+    expectedValue: string,
+    value: string,
+    timeToLiveMs?: number
+  ): Promise<boolean> {
+    const replaced = await this.remote.compareAndSet(
+      key,
+      expectedValue,
+      value,
+      timeToLiveMs
+    );
+    if (replaced) {
+      await this.cacheLocally(key, value, timeToLiveMs);
+    } else {
+      await this.local.delete(key);
+    }
+    return replaced;
+  }
+
+  /**
+   * Deletes a key from both tiers if the remote store holds
+   * `expectedValue`.
+   * @param key - The key to delete
+   * @param expectedValue - The value the key must currently hold
+   * @returns True if the key was deleted
+   */
+  async compareAndDelete(key: string, expectedValue: string): Promise<boolean> {
+    await this.local.delete(key);
+    return this.remote.compareAndDelete(key, expectedValue);
+  }
+
+  /**
+   * Deletes a key from both tiers. Other instances keep their local copy
+   * until it expires.
+   * @param key - The key to delete
+   */
+  async delete(key: string): Promise<void> {
+    await this.local.delete(key);
+    await this.remote.delete(key);
+  }
+
+  /**
+   * Returns the statistics of the local cache. Hits are reads answered
+   * without a remote round trip.
+   * @returns Local cache statistics
+   */
+  localStats(): MemoryStoreStats {
+    return this.local.stats();
+  }
+
+  /**
+   * Stops the local cache's background sweep.
+   */
+  dispose(): void {
+    this.local.dispose();
+  }
+}
@@ -0,0 +1,243 @@
+import {
+  createIdempotencyEngine,
+  type IdempotencyOptions,
+} from "./idempotency-engine";
+import { createStoredResponse } from "./idempotency-record";
+import {
+  deserializeActionResult,
+  serializeActionResult,
+} from "./action-result";
+import { findFormDataIndex } from "../shared/form-data";
+
+/**
+ * Configuration options for withIdempotentAction.
+ */
+export interface IdempotentActionOptions<TArgs extends unknown[] = unknown[]>
+  extends Omit<IdempotencyOptions, "keyExtractor" | "cachePolicy" | "scope"> {
+  /**
+   * Custom function to extract the idempotency key from the action's form
+   * data.
+   * @param formData - The form data passed to the action
+   * @returns The idempotency key or null if not found
+   * @default Reads the `idempotency-key` field
+   */
+  keyExtractor?: (formData: FormData) => string | null;
+
+  /**
+   * Name of the action, used in request fingerprints so a key reused for a
+   * different action is rejected.
+   * @default The action function's name
+   */
+  actionName?: string;
+
+  /**
+   * Returns the namespace the call's key belongs to, such as the signed-in
+   * user. Keys are only deduplicated (and results only replayed) within the
+   * same scope. Actions don't receive the request, so read the user from
+   * the arguments or from the framework (for example your `auth()` helper
+   * or Next.js `cookies()`). The request-based helpers such as `userScope`
+   * don't apply here.
+   * @param args - The action's arguments
+   * @returns The scope of the call's key, or null, undefined or an empty
+   * string to leave the key unscoped
+   * @default No scope
+   */
+  scope?: (
+    ...args: TArgs
+  ) => string | null | undefined | Promise<string | null | undefined>;
+}
+
+/**
+ * Error thrown by an idempotent action when a duplicate cannot be replayed:
+ * the original call is still in progress or completed with a result that
+ * could not be stored (409), or the key was already used with different
+ * form data (422).
+ */
+export class IdempotencyConflictError extends Error {
+  /** HTTP status equivalent of the conflict (409 or 422) */
+  readonly status: number;
+
+  /** Seconds to wait before retrying, for in-progress conflicts */
+  readonly retryAfterSeconds?: number;
+
+  constructor(message: string, status: number, retryAfterSeconds?: number) {
+    super(message);
+    this.name = "IdempotencyConflictError";
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * Header used to pass the extracted key to the engine.
+ */
+const ACTION_KEY_HEADER = "Idempotency-Key";
+
+/**
+ * Header used to pass the call's scope to the engine.
+ */
+const ACTION_SCOPE_HEADER = "X-Idempotency-Scope";
+
+/**
+ * Header of a stored response marking a completed call whose result could
+ * not be serialized.
+ */
+const RESULT_UNAVAILABLE_HEADER = "X-Idempotent-Result-Unavailable";
+
+/**
+ * Converts the response the engine returned instead of running the action
+ * into the action's result, or throws if it isn't a replay.
+ * @param response - Replay, conflict or mismatch response
+ * @returns The stored action result
+ */
+async function readActionResponse<TResult>(
+  response: Response
+): Promise<TResult> {
+  const text = await response.text();
+  if (response.ok && response.headers.has(RESULT_UNAVAILABLE_HEADER)) {
+    throw new IdempotencyConflictError(
+      "The action already ran, but its result could not be stored",
+      409
+    );
+  }
+  if (response.ok) {
+    return (text ? deserializeActionResult(text) : undefined) as TResult;
+  }
+
+  let message = "Idempotency key already used";
+  try {
+    message = JSON.parse(text).message || message;
+  } catch {
+    // Keep the default message
+  }
+  const retryAfter = response.headers.get("Retry-After");
+  throw new IdempotencyConflictError(
+    message,
+    response.status,
+    retryAfter ? Number(retryAfter) : undefined
+  );
+}
+
+/**
+ * Higher-order function that adds idempotency support to a Next.js Server
+ * Action or React form action.
+ *
+ * The key is read from the `idempotency-key` field of the action's FormData
+ * (the client helper `useSafeAction` adds it). The first call with a key runs
+ * the action and stores its result; duplicates get the stored result without
+ * running the action again. Replays return the same value as the first call:
+ * besides JSON values, results can contain undefined, BigInt, Date, Map and
+ * Set. A result that can't be stored (functions, class instances, circular
+ * references) is still returned, but its duplicates throw an
+ * `IdempotencyConflictError` instead of running the action again.
+ *
+ * If the action throws, the key is released so the form can be submitted
+ * again. This includes the errors thrown by Next.js `redirect()` and
+ * `notFound()`, so call those outside the wrapped action (or return the
+ * target and redirect from the caller) when the action has side effects.
+ *
+ * Duplicates that cannot be replayed throw an `IdempotencyConflictError`:
+ * status 409 while the original call is still running (unless
+ * `inFlightPolicy` is `wait`), 422 when the key was used with different form
+ * data.
+ *
+ * @param action - The Server Action to make idempotent
+ * @param options - Configuration options for idempotency behavior
+ * @returns Action with the same signature
+ *
+ * @example
+ * ```typescript
+ * // app/actions.ts
+ * 'use server';
+ * import { withIdempotentAction, RedisStore } from 'use-safe-submit/server';
+ *
+ * export const subscribe = withIdempotentAction(
+ *   async (prevState: State, formData: FormData) => {
+ *     await addSubscriber(formData.get('email'));
+ *     return { subscribed: true };
+ *   },
+ *   { store }
+ * );
+ * ```
+ */
+export function withIdempotentAction<TArgs extends unknown[], TResult>(
+  action: (...args: TArgs) => Promise<TResult>,
+  options: IdempotentActionOptions<TArgs> = {}
+): (...args: TArgs) => Promise<TResult> {
+  const { keyExtractor, actionName, scope, ...engineOptions } = options;
+  const engine = createIdempotencyEngine({
+    ...engineOptions,
+    keyExtractor: (req) => req.headers.get(ACTION_KEY_HEADER),
+    scope: (req) => req.headers.get(ACTION_SCOPE_HEADER),
+  });
+  const path = `/actions/${encodeURIComponent(
+    actionName || action.name || "action"
+  )}`;
+
+  return async (...args: TArgs): Promise<TResult> => {
+    const formDataIndex = findFormDataIndex(args);
+    const formData =
+      formDataIndex === -1 ? null : (args[formDataIndex] as FormData);
+    const idempotencyKey = formData
+      ? keyExtractor
+        ? keyExtractor(formData)
+        : (formData.get("idempotency-key") as string | null)
+      : null;
+    if (!formData || !idempotencyKey) {
+      return action(...args);
+    }
+
+    const requestHeaders = new Headers({
+      [ACTION_KEY_HEADER]: idempotencyKey,
+    });
+    const callScope = scope ? await scope(...args) : null;
+    if (callScope) {
+      // Header values must be ByteStrings; the engine hashes the scope anyway
+      requestHeaders.set(ACTION_SCOPE_HEADER, encodeURIComponent(callScope));
+    }
+    const claim = await engine.claim(
+      new Request(`http://localhost${path}`, {
+        method: "POST",
+        headers: requestHeaders,
+        body: formData,
+      })
+    );
+    if (claim.type === "bypass") {
+      return action(...args);
+    }
+    if (claim.type === "respond") {
+      return readActionResponse<TResult>(claim.response);
+    }
+
+    let result: TResult;
+    try {
+      result = await action(...args);
+    } catch (error) {
+      await claim.release();
+      throw error;
+    }
+
+    // The action ran: return its result even if it can't be stored
+    let body = "";
+    const headers: Array<[string, string]> = [
+      ["content-type", "application/json"],
+    ];
+    try {
+      body = serializeActionResult(result);
+    } catch {
+      headers.push([RESULT_UNAVAILABLE_HEADER, "true"]);
+    }
+    try {
+      await claim.complete(
+        createStoredResponse({
+          status: 200,
+          headers,
+          body: new TextEncoder().encode(body),
+        })
+      );
+    } catch {
+      // Store errors are reported through onEvent; the engine released the key
+    }
+    return result;
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * Finds the FormData argument of a form action. Actions used with
+ * `<form action>` receive it first; actions used with `useActionState`
+ * receive the previous state first and the form data second.
+ * @param args - The action's arguments
+ * @returns Index of the form data, or -1 if there is none
+ */
+export function findFormDataIndex(args: unknown[]): number {
+  for (let i = args.length - 1; i >= 0; i--) {
+    if (args[i] instanceof FormData) return i;
+  }
+  return -1;
+}
@@ -0,0 +1,316 @@
+import type { IdempotencyStore } from "../server/stores/memory-store";
+
+/**
+ * Test framework functions used by the suite. Vitest (with `globals: true`),
+ * Jest and Mocha all provide them as globals.
+ */
+interface TestGlobals {
+  describe(name: string, fn: () => void): void;
+  it(name: string, fn: () => Promise<void>, timeout?: number): void;
+  beforeEach(fn: () => Promise<void>, timeout?: number): void;
+  afterEach(fn: () => Promise<void>, timeout?: number): void;
+}
+
+/**
+ * Configuration options for runIdempotencyStoreConformance.
+ */
+export interface StoreConformanceOptions {
+  /**
+   * Name of the test suite.
+   * @default "IdempotencyStore conformance"
+   */
+  name?: string;
+
+  /**
+   * Time to live used by the expiry tests, in milliseconds. The tests wait
+   * for it to elapse in real time, so keep it short, but long enough for
+   * the store's round trips.
+   * @default 100
+   */
+  timeToLiveMs?: number;
+
+  /**
+   * Number of concurrent callers in the atomicity tests.
+   * @default 20
+   */
+  concurrency?: number;
+
+  /**
+   * Timeout for each test, in milliseconds.
+   * @default 10000
+   */
+  testTimeoutMs?: number;
+
+  /**
+   * Called after each test with the store it used, for example to close
+   * connections or drop data.
+   * @param store - The store created for the test
+   */
+  cleanup?: (store: IdempotencyStore) => void | Promise<void>;
+}
+
+/**
+ * Reads the test framework globals.
+ * @returns The framework functions
+ */
+function getTestGlobals(): TestGlobals {
+  const globals = globalThis as unknown as Partial<TestGlobals>;
+  if (
+    typeof globals.describe !== "function" ||
+    typeof globals.it !== "function" ||
+    typeof globals.beforeEach !== "function" ||
+    typeof globals.afterEach !== "function"
+  ) {
+    throw new Error(
+      "runIdempotencyStoreConformance needs global describe, it, beforeEach and afterEach (enable `globals: true` in Vitest)"
+    );
+  }
+  return globals as TestGlobals;
+}
+
+/**
+ * Throws if two values are not strictly equal.
+ * @param actual - The value produced by the store
+ * @param expected - The value required by the contract
+ * @param message - What was checked
+ */
+function assertEqual(actual: unknown, expected: unknown, message: string) {
+  if (actual !== expected) {
+    throw new Error(
+      `${message}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(
+        actual
+      )}`
+    );
+  }
+}
+
+/**
+ * Waits for the given number of milliseconds.
+ * @param ms - Delay in milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Registers a test suite that checks an IdempotencyStore implementation
+ * against the contract the idempotency engine relies on: null on miss,
+ * overwrites, TTL expiry, idempotent deletes, atomic claims under
+ * concurrency, and compare-and-set/delete by owner value.
+ *
+ * Call it at the top level of a test file. It uses the global `describe`,
+ * `it`, `beforeEach` and `afterEach` of the test framework, and waits in
+ * real time for TTLs to elapse.
+ *
+ * @param factory - Creates a fresh, empty store for each test
+ * @param options - Suite name, timings and cleanup
+ *
+ * @example
+ * ```typescript
+ * // __tests__/kv-store.test.ts
+ * import { runIdempotencyStoreConformance } from 'use-safe-submit/testing';
+ * import { KvStore } from '../src/kv-store';
+ *
+ * runIdempotencyStoreConformance(() => new KvStore(createTestNamespace()), {
+ *   name: 'KvStore',
+ * });
+ * ```
+ */
+export function runIdempotencyStoreConformance(
+  factory: () => IdempotencyStore | Promise<IdempotencyStore>,
+  options: StoreConformanceOptions = {}
+): void {
+  const { describe, it, beforeEach, afterEach } = getTestGlobals();
+  const timeToLiveMs = options.timeToLiveMs ?? 100;
+  const concurrency = options.concurrency ?? 20;
+  const testTimeoutMs = options.testTimeoutMs ?? 10 * 1000;
+  // Long enough not to expire during a test
+  const longTimeToLiveMs = 60 * 60 * 1000;
+
+  describe(options.name || "IdempotencyStore conformance", () => {
+    let store: IdempotencyStore;
+
+    beforeEach(async () => {
+      store = await factory();
+    }, testTimeoutMs);
+
+    afterEach(async () => {
+      await options.cleanup?.(store);
+    }, testTimeoutMs);
+
+    const test = (name: string, fn: () => Promise<void>) =>
+      it(name, fn, testTimeoutMs);
+
+    test("returns null for a missing key", async () => {
+      assertEqual(await store.get("missing"), null, "get(missing)");
+    });
+
+    test("stores and overwrites values", async () => {
+      await store.set("key", "first", longTimeToLiveMs);
+      assertEqual(await store.get("key"), "first", "get after set");
+
+      await store.set("key", "second", longTimeToLiveMs);
+      assertEqual(await store.get("key"), "second", "get after overwrite");
+    });
+
+    test("keeps keys apart", async () => {
+      await store.set("key-a", "a", longTimeToLiveMs);
+      await store.set("key-b", "b", longTimeToLiveMs);
+
+      assertEqual(await store.get("key-a"), "a", "get(key-a)");
+      assertEqual(await store.get("key-b"), "b", "get(key-b)");
+    });
+
+    test("round-trips values unchanged", async () => {
+      const value = JSON.stringify({
+        id: "1700000000000-abc",
+        state: "completed",
+        text: 'ünïcödé ✓ "quoted" \\ backslash\nnew line',
+      });
+      await store.set("key", value, longTimeToLiveMs);
+
+      assertEqual(await store.get("key"), value, "get after set");
+    });
+
+    test("expires values after their time to live", async () => {
+      await store.set("key", "value", timeToLiveMs);
+      assertEqual(await store.get("key"), "value", "get before expiry");
+
+      await sleep(timeToLiveMs * 2);
+      assertEqual(await store.get("key"), null, "get after expiry");
+    });
+
+    test("deletes values, and deleting a missing key is a no-op", async () => {
+      await store.set("key", "value", longTimeToLiveMs);
+      await store.delete("key");
+      assertEqual(await store.get("key"), null, "get after delete");
+
+      await store.delete("key");
+      await store.delete("never-set");
+    });
+
+    test("setIfAbsent only stores a value for a missing key", async () => {
+      assertEqual(
+        await store.setIfAbsent("key", "first", longTimeToLiveMs),
+        true,
+        "first setIfAbsent"
+      );
+      assertEqual(
+        await store.setIfAbsent("key", "second", longTimeToLiveMs),
+        false,
+        "second setIfAbsent"
+      );
+      assertEqual(await store.get("key"), "first", "get after setIfAbsent");
+    });
+
+    test("setIfAbsent claims an expired key again", async () => {
+      await store.setIfAbsent("key", "first", timeToLiveMs);
+      await sleep(timeToLiveMs * 2);
+
+      assertEqual(
+        await store.setIfAbsent("key", "second", longTimeToLiveMs),
+        true,
+        "setIfAbsent after expiry"
+      );
+      assertEqual(await store.get("key"), "second", "get after reclaim");
+    });
+
+    test("setIfAbsent lets exactly one concurrent caller win", async () => {
+      const results = await Promise.all(
+        Array.from({ length: concurrency }, (_, index) =>
+          store.setIfAbsent("key", `value-${index}`, longTimeToLiveMs)
+        )
+      );
+
+      const winners = results
+        .map((claimed, index) => (claimed ? index : -1))
+        .filter((index) => index !== -1);
+      assertEqual(winners.length, 1, "number of successful claims");
+      assertEqual(
+        await store.get("key"),
+        `value-${winners[0]}`,
+        "value of the winning claim"
+      );
+    });
+
+    test("compareAndSet only replaces the expected value", async () => {
+      await store.set("key", "lease", longTimeToLiveMs);
+
+      assertEqual(
+        await store.compareAndSet("key", "other", "next", longTimeToLiveMs),
+        false,
+        "compareAndSet with another value"
+      );
+      assertEqual(await store.get("key"), "lease", "get after failed CAS");
+      assertEqual(
+        await store.compareAndSet("key", "lease", "next", longTimeToLiveMs),
+        true,
+        "compareAndSet with the expected value"
+      );
+      assertEqual(await store.get("key"), "next", "get after CAS");
+      assertEqual(
+        await store.compareAndSet("missing", "lease", "next", longTimeToLiveMs),
+        false,
+        "compareAndSet on a missing key"
+      );
+      assertEqual(await store.get("missing"), null, "get(missing) after CAS");
+    });
+
+    test("compareAndSet replaces the time to live", async () => {
+      await store.set("key", "lease", timeToLiveMs);
+      await store.compareAndSet("key", "lease", "lease", longTimeToLiveMs);
+      await sleep(timeToLiveMs * 2);
+
+      assertEqual(await store.get("key"), "lease", "get after extension");
+    });
+
+    test("compareAndSet does not match an expired value", async () => {
+      await store.set("key", "lease", timeToLiveMs);
+      await sleep(timeToLiveMs * 2);
+
+      assertEqual(
+        await store.compareAndSet("key", "lease", "next", longTimeToLiveMs),
+        false,
+        "compareAndSet after expiry"
+      );
+    });
+
+    test("compareAndSet lets exactly one concurrent caller win", async () => {
+      await store.set("key", "lease", longTimeToLiveMs);
+
+      const results = await Promise.all(
+        Array.from({ length: concurrency }, (_, index) =>
+          store.compareAndSet("key", "lease", `next-${index}`, longTimeToLiveMs)
+        )
+      );
+
+      assertEqual(
+        results.filter(Boolean).length,
+        1,
+        "number of successful compareAndSet calls"
+      );
+    });
+
+    test("compareAndDelete only deletes the expected value", async () => {
+      await store.set("key", "lease", longTimeToLiveMs);
+
+      assertEqual(
+        await store.compareAndDelete("key", "other"),
+        false,
+        "compareAndDelete with another value"
+      );
+      assertEqual(await store.get("key"), "lease", "get after failed delete");
+      assertEqual(
+        await store.compareAndDelete("key", "lease"),
+        true,
+        "compareAndDelete with the expected value"
+      );
+      assertEqual(await store.get("key"), null, "get after delete");
+      assertEqual(
+        await store.compareAndDelete("key", "lease"),
+        false,
+        "compareAndDelete on a missing key"
+      );
+    });
+  });
+}
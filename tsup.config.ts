@@ -13,7 +13,14 @@ export default defineConfig([
     onSuccess: "npm run typecheck",
   },
   {
-    entry: { "server/index": "src/server/index.ts" },
+    entry: {
+      "core/index": "src/client/core.ts",
+      "server/index": "src/server/index.ts",
+      "express/index": "src/adapters/express.ts",
+      "fastify/index": "src/adapters/fastify.ts",
+      "hono/index": "src/adapters/hono.ts",
+      "testing/index": "src/testing/store-conformance.ts",
+    },
     format: ["cjs", "esm"],
     dts: true,
     splitting: false,